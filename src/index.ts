@@ -2,6 +2,11 @@
 export * from './shared/type-definitions';
 export * from './shared/language';
 export * from './shared/check-type';
+export * from './shared/coerce';
+export * from './shared/defaults';
+export * from './shared/sanitize';
+export * from './shared/special-types';
+export * from './shared/typechecking-error';
 export * from './shared/validators';
 export * from './shared/types/common';
 export * from './shared/temporal';
@@ -9,106 +9,335 @@ import {
   Schema,
   resolveType,
   isEnum,
+  discriminantKey,
+  discriminantValues,
   typeToString,
+  enumValueToString,
   indent,
   BuiltInType,
+  Constraints,
+  ExcludeType,
+  ExtractType,
+  Field,
+  InterfaceType,
+  OmitType,
+  ResolvedType,
+  TupleElement,
+  TemplateLiteralSpan,
+  TemplateLiteralType,
   UnionType,
 } from './type-definitions';
-import { assertNonNull, exceptionToString, hasProperty, mapEnum, objectToJson } from './language';
 import {
-  validateCountryCode,
-  validateDollarAmount,
-  validateEmail,
-  validateIsoDate,
-  validateIsoDatetime,
-  validateNumericString,
-  validatePhoneNumber,
-  validatePostalCode,
-  validateSocialSecurityNumber,
-  validateTrimmedString,
-  validateUsState,
-  validateUuid,
-} from './validators';
-import { validateTemporalPlainDate, validateTemporalPlainDateTime, validateTemporalPlainMonthDay, validateTemporalPlainTime, validateTemporalPlainYearMonth, validateTemporalZonedDateTime } from './temporal';
-
-export const SPECIAL_TYPES = [
-  'IsoDate',
-  'IsoDatetime',
-  'TrimmedString',
-  'Email',
-  'PhoneNumber',
-  'SocialSecurityNumber',
-  'PostalCode',
-  'Uuid',
-  'NumericString',
-  'DollarAmount',
-  'UsState',
-  'CountryCode',
-  'TemporalPlainDateTime',
-  'TemporalPlainDate',
-  'TemporalPlainTime',
-  'TemporalPlainYearMonth',
-  'TemporalPlainMonthDay',
-  'TemporalZonedDateTime',
-];
+  assertNonNull,
+  exceptionToString,
+  hasProperty,
+  ith,
+  jsonReplacer,
+  objectToJson,
+  REDACTED,
+} from './language';
+import {
+  CheckError,
+  CheckErrorCode,
+  TypecheckingError,
+  UnionMemberAttempt,
+  redactsAllValues,
+  unionMismatchMessage,
+} from './typechecking-error';
+import {
+  SENSITIVE_SPECIAL_TYPES,
+  SPECIAL_NUMBER_TYPES,
+  SPECIAL_TYPES,
+  TRIMMED_SPECIAL_TYPES,
+  registeredSpecialType,
+  specialNumberValidator,
+  specialStringValidator,
+} from './special-types';
 
 // A type that can be used to express "Any type that's not a Promise".
 export type NotPromise<T> = T extends Promise<unknown> ? never : T;
 
-export class TypecheckingError extends Error {
-  constructor(m: string) {
-    super(m);
-    // https://github.com/Microsoft/TypeScript/wiki/Breaking-Changes#generated-constructor-code-substitutes-the-return-value-of-super-calls-as-this
-    Object.setPrototypeOf(this, TypecheckingError.prototype);
-  }
-}
-
 // Check the value for additional constraints when we know about a special type.
-// These types are defined in shared/types/common.ts.
-function checkSpecialStringType(value: string, type: BuiltInType) {
+// The built-in types are defined in shared/types/common.ts, others are registered using
+// registerSpecialType.
+function checkSpecialStringType(
+  value: string,
+  type: BuiltInType,
+  redacted: boolean
+) {
   if (type.specialName === undefined) return;
-  const validator = mapEnum(type.specialName, {
-    IsoDate: validateIsoDate,
-    IsoDatetime: validateIsoDatetime,
-    TrimmedString: validateTrimmedString,
-    Email: validateEmail,
-    PhoneNumber: validatePhoneNumber,
-    SocialSecurityNumber: validateSocialSecurityNumber,
-    PostalCode: validatePostalCode,
-    Uuid: validateUuid,
-    NumericString: validateNumericString,
-    DollarAmount: validateDollarAmount,
-    UsState: validateUsState,
-    CountryCode: validateCountryCode,
-    TemporalPlainDateTime: validateTemporalPlainDateTime,
-    TemporalPlainDate: validateTemporalPlainDate,
-    TemporalPlainTime: validateTemporalPlainTime,
-    TemporalPlainYearMonth: validateTemporalPlainYearMonth,
-    TemporalPlainMonthDay: validateTemporalPlainMonthDay,
-    TemporalZonedDateTime: validateTemporalZonedDateTime,
-  });
+  const validator = specialStringValidator(type.specialName);
   if (validator !== undefined) {
     const result = validator(value);
+    // The validator's message might show the value as well.
     if (result !== '')
       throw new TypecheckingError(
-        `${result} Got '${value}' for ${type.specialName}`
+        shownValue(
+          `${result} Got '${value}' for ${type.specialName}`,
+          redacted,
+          `Expected a valid ${type.specialName}, but got ${REDACTED}`
+        )
       );
   }
   // Check trimmed-ness
   if (
-    ['TrimmedString', 'Email', 'DollarAmount', 'NumericString'].includes(
-      type.specialName
-    ) &&
+    TRIMMED_SPECIAL_TYPES.includes(type.specialName) &&
     value !== value.trim()
   ) {
     throw new TypecheckingError(
       `${
         type.specialName
-      } must not have extra whitespace, but found '${value}' == value != value.trim() == '${value.trim()}'`
+      } must not have extra whitespace, but found ${shownValue(
+        `'${value}'`,
+        redacted
+      )} == value != value.trim() == ${shownValue(`'${value.trim()}'`, redacted)}`
+    );
+  }
+}
+
+// Same as checkSpecialStringType, but for branded numbers and booleans.
+function checkSpecialPrimitiveType(
+  value: number | boolean,
+  type: BuiltInType,
+  redacted: boolean
+) {
+  if (type.specialName === undefined) return;
+  const validator =
+    typeof value === 'number'
+      ? specialNumberValidator(type.specialName)
+      : registeredSpecialType(type.specialName);
+  if (validator !== undefined) {
+    const result = validator(value as never);
+    if (result !== '')
+      throw new TypecheckingError(
+        shownValue(
+          `${result} Got ${value} for ${type.specialName}`,
+          redacted,
+          `Expected a valid ${type.specialName}, but got ${REDACTED}`
+        )
+      );
+  }
+}
+
+// Checks the constraints that apply to the Javascript type of the value.
+function checkConstraints(
+  value: unknown,
+  constraints: Constraints | undefined,
+  valueString: string,
+  redacted: boolean
+) {
+  if (constraints === undefined) return;
+  const violated = (constraint: keyof Constraints, message: string) =>
+    new TypecheckingError(`${message} (violates @${constraint})`);
+  if (typeof value === 'string') {
+    const { minLength, maxLength, pattern } = constraints;
+    if (minLength !== undefined && value.length < minLength) {
+      throw violated(
+        'minLength',
+        `Expected a string with at least ${pluralize(
+          minLength,
+          'character'
+        )}, but got ${value.length}`
+      );
+    }
+    if (maxLength !== undefined && value.length > maxLength) {
+      throw violated(
+        'maxLength',
+        `Expected a string with at most ${pluralize(
+          maxLength,
+          'character'
+        )}, but got ${value.length}`
+      );
+    }
+    if (pattern !== undefined && !constraintPattern(pattern).test(value)) {
+      throw violated(
+        'pattern',
+        `Expected a string matching /${pattern}/, but got ${shownValue(
+          `'${value}'`,
+          redacted
+        )}`
+      );
+    }
+  }
+  if (typeof value === 'number') {
+    const { minimum, maximum, integer } = constraints;
+    if (minimum !== undefined && !(value >= minimum)) {
+      throw violated(
+        'minimum',
+        `Expected a number >= ${minimum}, but got ${shownValue(
+          `${value}`,
+          redacted
+        )}`
+      );
+    }
+    if (maximum !== undefined && !(value <= maximum)) {
+      throw violated(
+        'maximum',
+        `Expected a number <= ${maximum}, but got ${shownValue(
+          `${value}`,
+          redacted
+        )}`
+      );
+    }
+    if (integer === true && !Number.isInteger(value)) {
+      throw violated(
+        'integer',
+        `Expected an integer, but got ${shownValue(`${value}`, redacted)}`
+      );
+    }
+  }
+  if (Array.isArray(value)) {
+    const { minItems, maxItems, uniqueItems } = constraints;
+    if (minItems !== undefined && value.length < minItems) {
+      throw violated(
+        'minItems',
+        `Expected an array with at least ${pluralize(
+          minItems,
+          'item'
+        )}, but got ${value.length}`
+      );
+    }
+    if (maxItems !== undefined && value.length > maxItems) {
+      throw violated(
+        'maxItems',
+        `Expected an array with at most ${pluralize(
+          maxItems,
+          'item'
+        )}, but got ${value.length}`
+      );
+    }
+    if (uniqueItems === true) {
+      // Items are compared structurally.
+      const seen = new Map<string, number>();
+      for (let i = 0; i < value.length; ++i) {
+        const key = objectToJson(value[i]);
+        const previous = seen.get(key);
+        if (previous !== undefined) {
+          throw violated(
+            'uniqueItems',
+            `Expected unique items, but ${valueString}[${previous}] and ${valueString}[${i}] are equal`
+          );
+        }
+        seen.set(key, i);
+      }
+    }
+  }
+}
+
+const constraintPatterns = new Map<string, RegExp>();
+
+function constraintPattern(pattern: string): RegExp {
+  let result = constraintPatterns.get(pattern);
+  if (result === undefined) {
+    result = new RegExp(pattern);
+    constraintPatterns.set(pattern, result);
+  }
+  return result;
+}
+
+// Types that describe the fields of an object, which are checked for excess fields in
+// strict mode.
+export const OBJECT_KINDS: Array<Type['kind']> = [
+  'interface',
+  'intersection',
+  'omit',
+  'pick',
+  'partial',
+  'required',
+  'mapped',
+];
+
+// Types T that Required<T> can be checked for, where intersections, Omit and Pick pass it
+// on to the types they are made of.
+export const REQUIRED_KINDS: Array<Type['kind']> = [
+  'interface',
+  'mapped',
+  'intersection',
+  'omit',
+  'pick',
+];
+
+function checkExcessFields(
+  schema: Schema,
+  value: unknown,
+  type: Type,
+  valueString: string
+) {
+  if (
+    !OBJECT_KINDS.includes(type.kind) ||
+    typeof value !== 'object' ||
+    value === null ||
+    Array.isArray(value)
+  ) {
+    return;
+  }
+  const allowedFields = allowedFieldsOfType(schema, type);
+  if (allowedFields === undefined) return;
+  const excessFields = Object.keys(value).filter(
+    field => !allowedFields.includes(field)
+  );
+  if (excessFields.length > 0) {
+    throw new TypecheckingError(
+      `Unexpected ${excessFields.length == 1 ? 'field' : 'fields'} ${excessFields
+        .map(field => `${valueString}['${field}']`)
+        .join(', ')} (strict mode)`
     );
   }
 }
 
+// The fields a value of the given type can have, or undefined if it can have any field
+// (e.g. because of an index signature).
+export function allowedFieldsOfType(
+  schema: Schema,
+  type: Type
+): string[] | undefined {
+  const resolved = resolveType(schema, type);
+  const allowedFieldsOfMembers = (members: Type[]) => {
+    const result: string[] = [];
+    for (const member of members) {
+      const fields = allowedFieldsOfType(schema, member);
+      if (fields === undefined) return undefined;
+      result.push(...fields);
+    }
+    return result;
+  };
+  switch (resolved.kind) {
+    case 'index-signature':
+    case 'unknown':
+      return undefined;
+    case 'mapped':
+      try {
+        return computePropertiesOfType(schema, resolved);
+      } catch (e) {
+        // Mapped over e.g. string, so any field is allowed.
+        return undefined;
+      }
+    case 'interface':
+      return allowedFieldsOfMembers(resolved.heritage)?.concat(
+        resolved.fields.map(field => field.name)
+      );
+    case 'intersection':
+      return allowedFieldsOfMembers(resolved.intersectionMembers);
+    case 'union':
+      return allowedFieldsOfMembers(resolved.unionMembers);
+    case 'exclude':
+    case 'extract':
+      return allowedFieldsOfMembers(filterUnionMembers(schema, resolved));
+    case 'omit':
+      return allowedFieldsOfType(schema, resolved.base)?.filter(
+        field => !resolved.omittedFields.includes(field)
+      );
+    case 'pick':
+      return resolved.pickedFields;
+    case 'partial':
+    case 'required':
+    case 'non-nullable':
+      return allowedFieldsOfType(schema, resolved.elementType);
+    default:
+      return computePropertiesOfType(schema, resolved);
+  }
+}
+
 /** Returns the set of possible properties on a given type. The set is an over-approximation. */
 export function computePropertiesOfType(schema: Schema, type: Type): string[] {
   switch (type.kind) {
@@ -119,17 +348,24 @@ export function computePropertiesOfType(schema: Schema, type: Type): string[] {
     case 'null':
     case 'unknown':
     case 'string-literal':
+    case 'template-literal':
+    case 'enum':
     case 'boolean-literal':
     case 'number-literal':
     case 'keyof':
       return [];
     case 'index-signature':
       throw new Error(`Cannot compute fields of ${typeToString(type)}, because it is an index signature.`);
+    case 'generic':
+    case 'type-parameter':
+      throw new Error(`Cannot compute fields of ${typeToString(type)}, because it is not instantiated.`);
     case 'mapped':
       const from = resolveType(schema, type.mapFrom);
       switch (from.kind) {
         case 'string-literal':
           return [from.value];
+        case 'enum':
+          return from.members.map(member => `${member.value}`);
         case 'union':
           const result = [];
           for (const member of resolveUnionMembers(schema, from)) {
@@ -145,10 +381,33 @@ export function computePropertiesOfType(schema: Schema, type: Type): string[] {
       }
     case 'array':
       return ['length'];
+    case 'tuple': {
+      const result = ['length'];
+      for (let i = 0; i < type.elements.length; ++i) {
+        if (type.elements[i].rest) break;
+        result.push(`${i}`);
+      }
+      return result;
+    }
     case 'reference-type':
+    case 'instantiation':
       return computePropertiesOfType(schema, resolveType(schema, type));
     case 'omit':
-      return computePropertiesOfType(schema, resolveType(schema, type)).filter(f => type.omittedFields.indexOf(f) === -1);
+      return computePropertiesOfType(schema, type.base).filter(f => type.omittedFields.indexOf(f) === -1);
+    case 'pick':
+      return type.pickedFields;
+    case 'exclude':
+    case 'extract': {
+      const result: string[] = [];
+      for (const member of filterUnionMembers(schema, type)) {
+        for (const candidate of computePropertiesOfType(schema, member)) {
+          if (!result.includes(candidate)) {
+            result.push(candidate);
+          }
+        }
+      }
+      return result;
+    }
     case 'interface':
       const result: string[] = type.fields.map(field => field.name);
       for (const member of type.heritage) {
@@ -182,52 +441,343 @@ export function computePropertiesOfType(schema: Schema, type: Type): string[] {
       return result;
     }
     case 'partial':
+    case 'required':
+    case 'non-nullable':
       return computePropertiesOfType(schema, type.elementType);
   }
 }
 
+// The types the parts of a value of the given type are checked against, e.g. the element
+// type of an array or the members of a union. The fields of interfaces are not included.
+function partsOfType(type: ResolvedType): Type[] {
+  switch (type.kind) {
+    case 'array':
+    case 'partial':
+    case 'required':
+    case 'non-nullable':
+      return [type.elementType];
+    case 'tuple':
+      return type.elements.map(element => element.type);
+    case 'union':
+      return type.unionMembers;
+    case 'intersection':
+      return type.intersectionMembers;
+    case 'index-signature':
+      return [type.valueType];
+    case 'mapped':
+      return [type.mapTo];
+    case 'omit':
+    case 'pick':
+    case 'exclude':
+    case 'extract':
+      return [type.base];
+    case 'interface':
+      return type.heritage;
+    default:
+      return [];
+  }
+}
+
+const sensitiveTypes = new WeakMap<Type, boolean>();
+
+// Whether values of the type are redacted in error messages as a whole, because it is a
+// sensitive special type (like Email), or consists of them (like Email[] or
+// Email | null). Objects are redacted field by field instead, see redactedFieldsOfType.
+export function isSensitiveType(
+  schema: Schema,
+  type: Type,
+  seen: string[] = []
+): boolean {
+  // Only complete results are cached, not those of recursive calls.
+  const isComplete = seen.length == 0;
+  const cached = isComplete ? sensitiveTypes.get(type) : undefined;
+  if (cached !== undefined) return cached;
+  // Recursive types are only followed once.
+  if (type.kind === 'reference-type' || type.kind === 'instantiation') {
+    const name = typeToString(type);
+    if (seen.includes(name)) return false;
+    seen = [...seen, name];
+  }
+  const resolved = resolveType(schema, type);
+  let result: boolean;
+  switch (resolved.kind) {
+    case 'string':
+    case 'number':
+    case 'boolean':
+      result =
+        resolved.specialName !== undefined &&
+        SENSITIVE_SPECIAL_TYPES.includes(resolved.specialName);
+      break;
+    case 'interface':
+      result = false;
+      break;
+    default:
+      result = partsOfType(resolved).some(part =>
+        isSensitiveType(schema, part, seen)
+      );
+  }
+  if (isComplete) sensitiveTypes.set(type, result);
+  return result;
+}
+
+const redactedFields = new WeakMap<Type, string[]>();
+
+// The names of the fields (anywhere in values of the type) whose values are redacted when
+// printing a value in an error message: fields with a `// @check-type:sensitive`
+// annotation, and fields of sensitive types.
+export function redactedFieldsOfType(schema: Schema, type: Type): string[] {
+  const cached = redactedFields.get(type);
+  if (cached !== undefined) return cached;
+  const result: string[] = [];
+  const seen: string[] = [];
+  const visit = (type: Type) => {
+    if (type.kind === 'reference-type' || type.kind === 'instantiation') {
+      const name = typeToString(type);
+      if (seen.includes(name)) return;
+      seen.push(name);
+    }
+    const resolved = resolveType(schema, type);
+    if (resolved.kind === 'interface') {
+      for (const field of resolved.fields) {
+        if (field.sensitive === true || isSensitiveType(schema, field.type)) {
+          if (!result.includes(field.name)) result.push(field.name);
+        } else {
+          visit(field.type);
+        }
+      }
+    }
+    partsOfType(resolved).forEach(visit);
+  };
+  visit(type);
+  redactedFields.set(type, result);
+  return result;
+}
+
+export interface CheckOptions {
+  // Reject values with fields that are not part of their type (e.g. typos). Types can
+  // also opt into this with a `// @check-type:strict` annotation.
+  strict?: boolean;
+  // Report all errors (of fields, array elements, etc.) instead of only the first one.
+  allErrors?: boolean;
+  // Stop after this many errors in all-errors mode.
+  maxErrors?: number;
+  // Report the errors of all union members in full if none of them matches, instead of
+  // only those of the closest one.
+  fullUnionErrors?: boolean;
+  // Limits for checking untrusted values, see CheckLimits.
+  limits?: CheckLimits;
+}
+
+// Limits for checking untrusted values (e.g. request bodies), which are only enforced if
+// they are set. Exceeding a limit stops checking with a 'limit-exceeded' error.
+export interface CheckLimits {
+  // How deeply the value may be nested.
+  maxDepth?: number;
+  maxArrayLength?: number;
+  maxStringLength?: number;
+  // How many (parts of) values may be checked in total, where every union member that is
+  // tried counts separately.
+  maxNodes?: number;
+  // How many milliseconds checking may take.
+  timeBudgetMs?: number;
+}
+
+const DEFAULT_MAX_ERRORS = 100;
+
+// State shared by all (recursive) checks of a single checkValueAgainstType call.
+interface CheckContext {
+  schema: Schema;
+  strict: boolean;
+  // Only set in all-errors mode.
+  errors?: CheckError[];
+  maxErrors: number;
+  fullUnionErrors: boolean;
+  // The objects whose parts are being checked, with their paths, to detect cycles.
+  ancestors: Map<unknown, string>;
+  // Only set if there are limits. Shared by all copies of the context.
+  limits?: { limits: CheckLimits; nodes: number; deadline: number };
+  // Set while checking a sensitive part of the value (or if all values are redacted),
+  // which is not printed in error messages.
+  redacted: boolean;
+  // The fields whose values are not printed, see redactedFieldsOfType.
+  redactedFields: string[];
+}
+
+// Thrown to stop checking once maxErrors errors have been found.
+class ErrorLimitReached extends Error {}
+
+// Thrown to stop checking once a limit has been exceeded, which (unlike a
+// TypecheckingError) is not caught when trying union members or in all-errors mode.
+class LimitExceeded extends Error {
+  constructor(readonly error: CheckError) {
+    super(error.message);
+  }
+}
+
+// Returns the errors of the value (only the first one unless options.allErrors is set),
+// or [] if the value conforms to the given type.
+export function findErrors<T>(
+  value: NotPromise<T>,
+  type: Type,
+  schema: Schema,
+  options?: CheckOptions
+): CheckError[] {
+  return collectErrors(value, type, schema, typeToShortString(type), options);
+}
+
+// Returns all errors of the value (up to options.maxErrors), or [] if the value conforms
+// to the given type.
+export function findAllErrors<T>(
+  value: NotPromise<T>,
+  type: Type,
+  schema: Schema,
+  options?: CheckOptions
+): CheckError[] {
+  return findErrors(value, type, schema, { ...options, allErrors: true });
+}
+
+function collectErrors(
+  value: unknown,
+  type: Type,
+  schema: Schema,
+  typeString: string,
+  options?: CheckOptions
+): CheckError[] {
+  const errors: CheckError[] = [];
+  const allErrors = options?.allErrors === true;
+  const context: CheckContext = {
+    schema,
+    strict: options?.strict === true,
+    errors: allErrors ? errors : undefined,
+    maxErrors: allErrors ? options?.maxErrors ?? DEFAULT_MAX_ERRORS : 0,
+    fullUnionErrors: options?.fullUnionErrors === true,
+    ancestors: new Map(),
+    limits:
+      options?.limits !== undefined
+        ? {
+            limits: options.limits,
+            nodes: 0,
+            deadline: Date.now() + (options.limits.timeBudgetMs ?? Infinity),
+          }
+        : undefined,
+    redacted: redactsAllValues(),
+    redactedFields: redactedFieldsOfType(schema, type),
+  };
+  try {
+    checkValueAgainstTypeHelper(value, type, context, 'value', '', () => typeString, 0);
+  } catch (error) {
+    if (error instanceof TypecheckingError) {
+      errors.push(...errorsWithMessage(error));
+    } else if (error instanceof LimitExceeded) {
+      errors.push(error.error);
+    } else if (!(error instanceof ErrorLimitReached)) {
+      throw error;
+    }
+  }
+  return errors;
+}
+
+// The errors of a (wrapped) TypecheckingError, with the message explaining them in full.
+function errorsWithMessage(error: TypecheckingError): CheckError[] {
+  return error.errors.map(e => ({ ...e, message: error.message }));
+}
+
+function recordError(context: CheckContext, error: TypecheckingError) {
+  const errors = assertNonNull(context.errors);
+  errors.push(...errorsWithMessage(error));
+  if (errors.length >= context.maxErrors) throw new ErrorLimitReached();
+}
+
 // Returns '' if value conforms to the given type, or a readable error message otherwise.
 export function checkValueAgainstType<T>(
   value: NotPromise<T>,
   type: Type,
-  schema: Schema
+  schema: Schema,
+  options?: CheckOptions
+): string {
+  const errors = collectErrors(value, type, schema, '_TYPE_', options);
+  if (errors.length == 0) return '';
+  return errorsToString(value, type, schema, errors, options);
+}
+
+// Throws a TypecheckingError with a readable message and the structured errors if the
+// value does not conform to the given type.
+export function assertValueAgainstType<T>(
+  value: NotPromise<T>,
+  type: Type,
+  schema: Schema,
+  options?: CheckOptions
+) {
+  const errors = collectErrors(value, type, schema, '_TYPE_', options);
+  if (errors.length == 0) return;
+  throw new TypecheckingError(
+    errorsToString(value, type, schema, errors, options),
+    errors
+  );
+}
+
+function errorsToString(
+  value: unknown,
+  type: Type,
+  schema: Schema,
+  errors: CheckError[],
+  options?: CheckOptions
 ): string {
   const valueString = 'value';
   const typeString = '_TYPE_';
-  try {
-    checkValueAgainstTypeHelper(
-      value,
+  const redacted = redactsAllValues() || isSensitiveType(schema, type);
+  const fields = redactedFieldsOfType(schema, type);
+  const shortValueString = valueToShortString(
+    value,
+    valueString,
+    redacted,
+    fields
+  );
+  const typeAppendix = errors.some(error => error.message.includes(typeString))
+    ? `
+_TYPE_ = ${objectToJson(type)}`
+    : '';
+  // Values checked with limits might be too large (or too deeply nested) to print, even
+  // if the error is elsewhere, and redacted values must not be printed.
+  const omitValue =
+    redacted ||
+    options?.limits !== undefined ||
+    errors.some(error => error.code == 'limit-exceeded');
+  if (options?.allErrors === true) {
+    const found =
+      errors.length >= (options.maxErrors ?? DEFAULT_MAX_ERRORS)
+        ? `Found ${pluralize(errors.length, 'error')} (stopped checking after ${
+            errors.length
+          })`
+        : `Found ${pluralize(errors.length, 'error')}`;
+    return `${shortValueString} does not conform to ${typeToShortString(
       type,
-      schema,
-      valueString,
-      typeString,
-      0
-    );
-  } catch (error) {
-    if (error instanceof TypecheckingError) {
-      const shortValueString = valueToShortString(value, valueString);
-      return `${shortValueString} does not conform to ${typeToShortString(
-        type,
-        typeString
-      )}!
+      typeString
+    )}!
 
+${found}:
+${errors.map(error => `- ${error.path}: ${indent(error.message)}`).join('\n')}
 ${
-  valueString !== shortValueString
-    ? error.message.split('\n').slice(0, -1).join('\n')
-    : `${error.message}
-value = ${objectToJson(value)}`
-}
-${
-  error.message.includes(typeString)
-    ? `
-_TYPE_ = ${objectToJson(type)}`
-    : ''
-}`;
-    } else {
-      throw error;
-    }
+  valueString !== shortValueString || omitValue
+    ? ''
+    : `value = ${objectToJson(value, fields)}\n`
+}${typeAppendix}`;
   }
-  return '';
+  const message = errors[0].message;
+  return `${shortValueString} does not conform to ${typeToShortString(
+    type,
+    typeString
+  )}!
+
+${
+  omitValue
+    ? message
+    : valueString !== shortValueString
+    ? message.split('\n').slice(0, -1).join('\n')
+    : `${message}
+value = ${objectToJson(value, fields)}`
+}
+${typeAppendix}`;
 }
 
 // Completes normally if value conforms to type and throws a
@@ -235,24 +785,136 @@ _TYPE_ = ${objectToJson(type)}`
 function checkValueAgainstTypeHelper(
   value: unknown,
   type: Type,
-  schema: Schema,
+  context: CheckContext,
   valueString: string,
-  typeString: string,
+  pointer: string,
+  // Only called for error messages.
+  typeString: () => string,
   depth: number,
-  options?: { partial?: boolean, ignoredFields?: string[] }
+  options?: {
+    partial?: boolean;
+    required?: boolean;
+    ignoredFields?: string[];
+    // Set when checking a part of a type (e.g. a member of an intersection), in which
+    // case the caller checks for excess fields.
+    excessFieldsChecked?: boolean;
+  }
 ) {
+  const schema = context.schema;
+  // Type strings are only built for error messages, since they can be expensive.
+  const expected = () => typeToShortString(type);
+  const fail = (code: CheckErrorCode, message: string) =>
+    new TypecheckingError(message, [
+      {
+        path: valueString,
+        pointer,
+        code,
+        expected: expected(),
+        actual: javascriptTypeOf(value),
+        message,
+      },
+    ]);
+  // For checks that throw errors without knowing where in the value they are.
+  const failWithCode = (code: CheckErrorCode, check: () => void) =>
+    handleTypecheckingError(check, error => {
+      throw fail(code, error.message);
+    });
   const checkJsType = (jsType: string, details?: string) => {
     if (typeof value !== jsType) {
-      throw new TypecheckingError(
+      throw fail(
+        'wrong-type',
         `Expected Javascript type ${jsType}, but got type ${typeof value}`
       );
     }
   };
+  // Objects with fields (unlike e.g. arrays) are checked for null as well.
+  const checkObject = () => {
+    checkJsType('object');
+    if (value === null) {
+      throw fail('wrong-type', 'Expected Javascript type object, but got null');
+    }
+  };
   const ignoredFields = options?.ignoredFields ?? [];
+  // In all-errors mode, errors in a part of the value (e.g. a field) are recorded, and we
+  // continue with the next part.
+  const checkPart = (check: () => void) => {
+    if (context.errors === undefined) return check();
+    handleTypecheckingError(check, error => recordError(context, error));
+  };
+  if (context.limits !== undefined) {
+    checkLimits(context.limits, value, valueString, pointer, expected);
+  }
+  // Sensitive values (and all their parts) are not printed in error messages.
+  if (!context.redacted && isSensitiveType(schema, type)) {
+    context = { ...context, redacted: true };
+  }
+  const shown = (text: string) => shownValue(text, context.redacted);
+  // Checks the parts of the (object) value, e.g. its fields, unless the value is one of
+  // its own parts, which would be checked forever.
+  const descend = (check: () => void) => {
+    const ancestor = context.ancestors.get(value);
+    if (ancestor !== undefined) {
+      throw fail(
+        'cyclic-value',
+        `Found a cycle: ${valueString} is the same object as ${ancestor}`
+      );
+    }
+    context.ancestors.set(value, valueString);
+    try {
+      check();
+    } finally {
+      context.ancestors.delete(value);
+    }
+  };
+  const missingField = (field: string, fieldType: Type) => {
+    const message = `Field '${field}' is not optional but missing from value`;
+    return new TypecheckingError(message, [
+      {
+        path: `${valueString}['${field}']`,
+        pointer: childPointer(pointer, field),
+        code: 'missing-field',
+        expected: typeToShortString(fieldType),
+        actual: 'undefined',
+        message,
+      },
+    ]);
+  };
 
   handleTypecheckingError(
     () => {
+      // Both a reference (e.g. from a field) and the type it refers to can have
+      // constraints.
+      const referenceConstraints = type.constraints;
       type = resolveType(schema, type);
+      const resolvedType = type;
+      checkPart(() =>
+        failWithCode('constraint-violation', () => {
+          checkConstraints(
+            value,
+            resolvedType.constraints,
+            valueString,
+            context.redacted
+          );
+          if (referenceConstraints !== resolvedType.constraints) {
+            checkConstraints(
+              value,
+              referenceConstraints,
+              valueString,
+              context.redacted
+            );
+          }
+        })
+      );
+      if (type.strict === true && !context.strict) {
+        context = { ...context, strict: true };
+      }
+      if (context.strict && options?.excessFieldsChecked !== true) {
+        checkPart(() =>
+          failWithCode('excess-field', () =>
+            checkExcessFields(schema, value, resolvedType, valueString)
+          )
+        );
+      }
       if (options?.partial === true && type.kind != 'interface') {
         throw new Error(
           `Can only check Partial<T> for interface T, but T was ${typeToString(
@@ -260,21 +922,50 @@ function checkValueAgainstTypeHelper(
           )}`
         );
       }
+      if (
+        options?.required === true &&
+        !REQUIRED_KINDS.includes(type.kind)
+      ) {
+        throw new Error(
+          `Can only check Required<T> for interface, mapped, intersection, Omit or Pick type T, but T was ${typeToString(
+            type
+          )}`
+        );
+      }
       switch (type.kind) {
         case 'string':
           checkJsType('string');
-          checkSpecialStringType(value as string, type);
+          const stringType = type;
+          failWithCode('special-type-invalid', () =>
+            checkSpecialStringType(value as string, stringType, context.redacted)
+          );
           break;
         case 'number':
         case 'boolean':
           checkJsType(type.kind);
+          const primitiveType = type;
+          failWithCode('special-type-invalid', () =>
+            checkSpecialPrimitiveType(
+              value as number | boolean,
+              primitiveType,
+              context.redacted
+            )
+          );
           break;
         case 'unknown':
           break;
+        case 'generic':
+        case 'type-parameter':
+          throw new Error(
+            `Cannot check against ${typeToString(
+              type
+            )}, because it is not instantiated.`
+          );
         case 'boolean-literal':
           checkJsType('boolean');
           if (value !== type.value)
-            throw new TypecheckingError(
+            throw fail(
+              'literal-mismatch',
               `Expected ${type.value ? 'true' : 'false'} literal`
             );
           break;
@@ -282,115 +973,276 @@ function checkValueAgainstTypeHelper(
           checkJsType('string');
           const keys = computePropertiesOfType(schema, type.base);
           if (!keys.includes(value as string)) {
-            throw new TypecheckingError(
-              `Expected one of [${keys.map(value => `'${value}'`)}], but got '${value}'`
+            throw fail(
+              'enum-mismatch',
+              `Expected one of [${keys.map(value => `'${value}'`)}], but got ${shown(
+                `'${value}'`
+              )}`
             );
           }
           break;
         case 'index-signature':
-          checkJsType('object');
-          for (const field of Object.keys(value as object)) {
-            checkValueAgainstTypeHelper(
-              (value as { [field: string]: unknown })[field],
-              type.valueType,
-              schema,
-              `${valueString}['${field}']`,
-              typeToShortString(type.valueType),
-              depth + 1
-            );
-          }
+          checkObject();
+          const valueType = type.valueType;
+          descend(() => {
+            for (const field of Object.keys(value as object)) {
+              checkPart(() =>
+                checkValueAgainstTypeHelper(
+                  (value as { [field: string]: unknown })[field],
+                  valueType,
+                  context,
+                  `${valueString}['${field}']`,
+                  childPointer(pointer, field),
+                  () => typeToShortString(valueType),
+                  depth + 1
+                )
+              );
+            }
+          });
           break;
         case 'omit':
           checkValueAgainstTypeHelper(
             value,
             type.base,
-            schema,
+            context,
             valueString,
-            typeToShortString(type),
+            pointer,
+            () => typeToShortString(type),
             depth + 1,
-            { ignoredFields: ignoredFields.concat(type.omittedFields) }
+            {
+              ignoredFields: ignoredFields.concat(type.omittedFields),
+              excessFieldsChecked: true,
+              required: options?.required,
+            }
           );
           break;
-        case 'mapped':
-          checkJsType('object');
-          if (type.mapFrom.kind === 'string') {
-            for (const field of Object.keys(value as object)) {
-              if (ignoredFields.includes(field)) continue;
-              checkValueAgainstTypeHelper(
-                (value as { [field: string]: unknown })[field],
-                type.mapTo,
-                schema,
-                `${valueString}['${field}']`,
-                typeToShortString(type.mapTo),
-                depth + 1
-              );
+        case 'pick': {
+          const pickedFields = type.pickedFields;
+          checkValueAgainstTypeHelper(
+            value,
+            type.base,
+            context,
+            valueString,
+            pointer,
+            () => typeToShortString(type),
+            depth + 1,
+            {
+              ignoredFields: ignoredFields.concat(
+                computePropertiesOfType(schema, type.base).filter(
+                  field => !pickedFields.includes(field)
+                )
+              ),
+              excessFieldsChecked: true,
+              required: options?.required,
             }
-            break;
-          }
-          // Fixed set of properties?
-          let properties = undefined;
-          try {
+          );
+          break;
+        }
+        case 'exclude':
+        case 'extract': {
+          const members = filterUnionMembers(schema, type);
+          if (members.length == 0) {
+            throw fail(
+              'union-no-match',
+              `No value conforms to ${typeToString(
+                type
+              )}, because it has no union members left`
+            );
+          }
+          checkValueAgainstTypeHelper(
+            value,
+            members.length == 1
+              ? members[0]
+              : { kind: 'union', unionMembers: members },
+            context,
+            valueString,
+            pointer,
+            () => typeToShortString(type),
+            depth + 1,
+            {
+              ignoredFields,
+              excessFieldsChecked: options?.excessFieldsChecked,
+            }
+          );
+          break;
+        }
+        case 'non-nullable': {
+          if (value === null || value === undefined) {
+            throw fail(
+              'wrong-type',
+              `Expected a non-null value, but got ${value}`
+            );
+          }
+          const elementType = type.elementType;
+          checkValueAgainstTypeHelper(
+            value,
+            elementType,
+            context,
+            valueString,
+            pointer,
+            () => typeToShortString(elementType),
+            depth + 1,
+            {
+              ignoredFields,
+              excessFieldsChecked: options?.excessFieldsChecked,
+            }
+          );
+          break;
+        }
+        case 'mapped': {
+          checkObject();
+          const { mapTo, optional } = type;
+          if (type.mapFrom.kind === 'string') {
+            descend(() => {
+              for (const field of Object.keys(value as object)) {
+                if (ignoredFields.includes(field)) continue;
+                checkPart(() =>
+                  checkValueAgainstTypeHelper(
+                    (value as { [field: string]: unknown })[field],
+                    mapTo,
+                    context,
+                    `${valueString}['${field}']`,
+                    childPointer(pointer, field),
+                    () => typeToShortString(mapTo),
+                    depth + 1
+                  )
+                );
+              }
+            });
+            break;
+          }
+          // Fixed set of properties?
+          let properties: string[] | undefined = undefined;
+          try {
             properties = computePropertiesOfType(schema, type);
           } catch (e) {
             // do nothing
           }
           if (properties === undefined) {
-            for (const field of Object.keys(value as object)) {
-              if (ignoredFields.includes(field)) continue;
-              checkValueAgainstTypeHelper(
-                (value as { [field: string]: unknown })[field],
-                type.mapTo,
-                schema,
-                `${valueString}['${field}']`,
-                typeToShortString(type.mapTo),
-                depth + 1
-              );
-            }
-          } else {
-            for (const property of properties) {
-              if (ignoredFields.includes(property)) continue;
-              if (
-                !type.optional &&
-                options?.partial !== true &&
-                !hasProperty(value, property)
-              ) {
-                throw new TypecheckingError(
-                  `Field '${property}' is not optional but missing from value`
+            descend(() => {
+              for (const field of Object.keys(value as object)) {
+                if (ignoredFields.includes(field)) continue;
+                checkPart(() =>
+                  checkValueAgainstTypeHelper(
+                    (value as { [field: string]: unknown })[field],
+                    mapTo,
+                    context,
+                    `${valueString}['${field}']`,
+                    childPointer(pointer, field),
+                    () => typeToShortString(mapTo),
+                    depth + 1
+                  )
                 );
               }
-              if (hasProperty(value, property)) {
-                checkValueAgainstTypeHelper(
-                  value[property],
-                  type.mapTo,
-                  schema,
-                  `${valueString}['${property}']`,
-                  typeToShortString(type.mapTo),
-                  depth + 1
-                );
+            });
+          } else {
+            const fixedProperties = properties;
+            descend(() => {
+              for (const property of fixedProperties) {
+                if (ignoredFields.includes(property)) continue;
+                checkPart(() => {
+                  if (
+                    (!optional || options?.required === true) &&
+                    options?.partial !== true &&
+                    !hasProperty(value, property)
+                  ) {
+                    throw missingField(property, mapTo);
+                  }
+                  if (hasProperty(value, property)) {
+                    checkValueAgainstTypeHelper(
+                      value[property],
+                      mapTo,
+                      context,
+                      `${valueString}['${property}']`,
+                      childPointer(pointer, property),
+                      () => typeToShortString(mapTo),
+                      depth + 1
+                    );
+                  }
+                });
               }
-            }
+            });
           }
           break;
+        }
         case 'null':
           if (value !== null)
-            throw new TypecheckingError(`Expected null value`);
+            throw fail('wrong-type', `Expected null value`);
           break;
         case 'undefined':
           if (value !== undefined)
-            throw new TypecheckingError(`Expected undefined value`);
+            throw fail('wrong-type', `Expected undefined value`);
           break;
         case 'string-literal':
           checkJsType('string');
           if (value !== type.value)
-            throw new TypecheckingError(
-              `Expected string literal '${type.value}', but got '${value}'`
+            throw fail(
+              'literal-mismatch',
+              `Expected string literal '${type.value}', but got ${shown(
+                `'${value}'`
+              )}`
             );
           break;
+        case 'template-literal': {
+          checkJsType('string');
+          const matcher = templateLiteralMatcher(schema, type);
+          if (matcher.full.test(value as string)) break;
+          const mismatch = `Expected string matching ${typeToString({
+            ...type,
+            name: undefined,
+          })}, but got ${shown(`'${value}'`)}`;
+          if (!matcher.prefixes[0].test(value as string)) {
+            throw fail(
+              'template-literal-mismatch',
+              `${mismatch}: it does not start with '${type.head}'`
+            );
+          }
+          for (let i = 0; i < type.spans.length; ++i) {
+            if (!matcher.prefixes[i + 1].test(value as string)) {
+              const span = type.spans[i];
+              throw fail(
+                'template-literal-mismatch',
+                `${mismatch}: the ${ith(i + 1)} span \`\${${typeToString(
+                  span.type
+                )}}${span.literal}\` does not match`
+              );
+            }
+          }
+          throw fail(
+            'template-literal-mismatch',
+            `${mismatch}: it has unexpected trailing characters`
+          );
+        }
+        case 'enum': {
+          const values = type.members.map(member => member.value);
+          if (values.every(value => typeof value === 'string')) {
+            checkJsType('string', 'enum type');
+          } else if (values.every(value => typeof value === 'number')) {
+            checkJsType('number', 'enum type');
+          } else if (typeof value !== 'string' && typeof value !== 'number') {
+            throw fail(
+              'wrong-type',
+              `Expected Javascript type string or number, but got type ${typeof value}`
+            );
+          }
+          if (values.includes(value as string | number)) break;
+          throw fail(
+            'enum-mismatch',
+            `Expected one of [${values
+              .map(enumValueToString)
+              .join(', ')}], but got ${shown(
+              enumValueToString(value as string | number)
+            )}`
+          );
+        }
         case 'number-literal':
           checkJsType('number');
           if (value !== type.value)
-            throw new TypecheckingError(
-              `Expected number literal '${type.value}', but got '${value}'`
+            throw fail(
+              'literal-mismatch',
+              `Expected number literal '${type.value}', but got ${shown(
+                `'${value}'`
+              )}`
             );
           break;
         case 'intersection':
@@ -398,11 +1250,16 @@ function checkValueAgainstTypeHelper(
             checkValueAgainstTypeHelper(
               value,
               member,
-              schema,
+              context,
               valueString,
-              typeToString(member, { short: true }),
+              pointer,
+              () => typeToString(member, { short: true }),
               depth + 1,
-              { ignoredFields }
+              {
+                ignoredFields,
+                excessFieldsChecked: true,
+                required: options?.required,
+              }
             );
           }
           break;
@@ -412,111 +1269,233 @@ function checkValueAgainstTypeHelper(
           if (enums !== undefined) {
             checkJsType('string', 'enum type');
             if (enums.includes(value as string)) return;
-            throw new TypecheckingError(
+            throw fail(
+              'enum-mismatch',
               `Expected one of [${enums
                 .map(value => `'${value}'`)
-                .join(', ')}], but got '${value}'`
+                .join(', ')}], but got ${shown(`'${value}'`)}`
             );
           }
-          // Special case: union with kind
-          if (type.kinds !== undefined) {
-            checkJsType('object', 'union with kind');
-            if (!hasProperty(value, 'kind')) {
-              throw new TypecheckingError(`Field 'kind' is missing from union`);
+          // Special case: union with a discriminant field (e.g. kind), unless the field
+          // is omitted, e.g. Omit<Shape, 'kind'>
+          if (
+            type.discriminant !== undefined &&
+            !ignoredFields.includes(type.discriminant.field)
+          ) {
+            const field = type.discriminant.field;
+            const values = discriminantValues(type.discriminant);
+            checkJsType('object', 'union with discriminant');
+            if (!hasProperty(value, field)) {
+              throw fail('union-no-match', `Field '${field}' is missing from union`);
             }
-            if (typeof value.kind !== 'string') {
-              throw new TypecheckingError(
-                `Expected field 'kind' to have Javascript type string, but found type ${typeof value.kind}`
+            const fieldValue = (value as Record<string, unknown>)[field];
+            const jsType = typeof values[0];
+            if (
+              values.every(value => typeof value === jsType) &&
+              typeof fieldValue !== jsType
+            ) {
+              throw fail(
+                'union-no-match',
+                `Expected field '${field}' to have Javascript type ${jsType}, but found type ${typeof fieldValue}`
               );
             }
-            if (!type.kinds.includes(value.kind)) {
-              throw new TypecheckingError(
-                `Expected field 'kind' to be one of [${type.kinds
-                  .map(value => `'${value}'`)
-                  .join(', ')}], but got '${value.kind}'`
+            const key = discriminantKey(fieldValue);
+            if (key === undefined || !(key in type.discriminant.members)) {
+              throw fail(
+                'union-no-match',
+                `Expected field '${field}' to be one of [${values
+                  .map(discriminantToString)
+                  .join(', ')}], but got ${shown(
+                  discriminantToString(fieldValue)
+                )}`
               );
             }
-            const unionKindType = assertNonNull(
-              resolveUnionMembers(schema, type).find(member => {
-                return (
-                  member.kind === 'interface' &&
-                  Boolean(
-                    member.fields.find(
-                      field =>
-                        field.name == 'kind' &&
-                        field.type.kind == 'string-literal' &&
-                        field.type.value == value.kind
-                    )
-                  )
-                );
-              })
+            const member = resolveType(
+              schema,
+              type.unionMembers[type.discriminant.members[key]]
             );
             checkValueAgainstTypeHelper(
               value,
-              unionKindType,
-              schema,
+              member,
+              context,
               valueString,
-              typeToShortString(
-                unionKindType,
-                `${typeString}[kind == '${value.kind}']`
+              pointer,
+              () => typeToShortString(
+                member,
+                `${typeString()}[${field} == ${discriminantToString(fieldValue)}]`
               ),
               depth + 1,
-              { ignoredFields }
+              {
+                ignoredFields,
+                excessFieldsChecked: options?.excessFieldsChecked,
+              }
             );
+            return;
           }
-          // Generic handling.
-          const errors = [];
+          // Generic handling. Members are only tried, so we don't collect their errors in
+          // all-errors mode.
+          const attempts: UnionMemberAttempt[] = [];
           for (let i = 0; i < type.unionMembers.length; ++i) {
             const option = type.unionMembers[i];
-            const error = handleTypecheckingError(
+            const error = handleTypecheckingError<TypecheckingError | undefined>(
               () => {
                 checkValueAgainstTypeHelper(
                   value,
                   option,
-                  schema,
+                  { ...context, errors: undefined },
                   valueString,
-                  typeToShortString(
+                  pointer,
+                  () => typeToShortString(
                     option,
-                    `${typeString}[${ith(i + 1)} union member]`
+                    `${typeString()}[${ith(i + 1)} union member]`
                   ),
                   depth + 1,
-                  { ignoredFields }
+                  {
+                    ignoredFields,
+                    excessFieldsChecked: options?.excessFieldsChecked,
+                  }
                 );
-                return '';
+                return undefined;
               },
               error => {
-                return error.message;
+                return error;
               }
             );
-            if (error == '') return;
-            errors.push(`- tried ${ith(i + 1)} union member, but got:
-  ${indent(error)}`);
+            if (error === undefined) return;
+            attempts.push(
+              unionMemberAttempt(
+                context,
+                option,
+                value,
+                valueString,
+                pointer,
+                error
+              )
+            );
           }
-          throw new TypecheckingError(`No union member matches:
-${errors.join('\n')}`);
+          throw fail(
+            'union-no-match',
+            unionMismatchMessage(
+              attempts,
+              valueString,
+              context.fullUnionErrors
+            )
+          );
         }
 
         case 'array': {
           checkJsType('object');
           if (!Array.isArray(value)) {
-            throw new TypecheckingError(
+            throw fail(
+              'wrong-type',
               `Expected an array, but value is not an array`
             );
           }
-          for (let i = 0; i < value.length; ++i) {
-            const elementType = type.elementType;
-            checkValueAgainstTypeHelper(
-              value[i],
-              elementType,
-              schema,
-              `${valueString}[${i}]`,
-              typeToShortString(
-                elementType,
-                `${typeString}[array element type]`
-              ),
-              depth + 1
+          const elementType = type.elementType;
+          descend(() => {
+            for (let i = 0; i < value.length; ++i) {
+              checkPart(() =>
+                checkValueAgainstTypeHelper(
+                  value[i],
+                  elementType,
+                  context,
+                  `${valueString}[${i}]`,
+                  childPointer(pointer, `${i}`),
+                  () => typeToShortString(
+                    elementType,
+                    `${typeString()}[array element type]`
+                  ),
+                  depth + 1
+                )
+              );
+            }
+          });
+          break;
+        }
+
+        case 'tuple': {
+          checkJsType('object');
+          if (!Array.isArray(value)) {
+            throw fail(
+              'wrong-type',
+              `Expected an array, but value is not an array`
+            );
+          }
+          const restIndex = type.elements.findIndex(element => element.rest);
+          const leading =
+            restIndex === -1 ? type.elements : type.elements.slice(0, restIndex);
+          const trailing =
+            restIndex === -1 ? [] : type.elements.slice(restIndex + 1);
+          const minLength =
+            leading.filter(element => !element.optional).length +
+            trailing.length;
+          const maxLength =
+            restIndex === -1 ? type.elements.length : Infinity;
+          if (value.length < minLength || value.length > maxLength) {
+            const expected =
+              minLength === maxLength
+                ? `exactly ${pluralize(minLength, 'element')}`
+                : maxLength === Infinity
+                ? `at least ${pluralize(minLength, 'element')}`
+                : `${minLength} to ${pluralize(maxLength, 'element')}`;
+            throw fail(
+              'tuple-length',
+              `Expected a tuple with ${expected}, but got an array with ${pluralize(
+                value.length,
+                'element'
+              )}`
             );
           }
+          const checkElement = (i: number, elementType: Type, description: string) => {
+            checkPart(() =>
+              checkValueAgainstTypeHelper(
+                value[i],
+                elementType,
+                context,
+                `${valueString}[${i}]`,
+                childPointer(pointer, `${i}`),
+                () => typeToShortString(elementType, `${typeString()}[${description}]`),
+                depth + 1
+              )
+            );
+          };
+          const elementName = (i: number, element: TupleElement) =>
+            element.name !== undefined
+              ? `tuple element ${i} (${element.name})`
+              : `tuple element ${i}`;
+          const elements = type.elements;
+          descend(() => {
+            for (let i = 0; i < leading.length && i < value.length; ++i) {
+              checkElement(i, leading[i].type, elementName(i, leading[i]));
+            }
+            const trailingStart = value.length - trailing.length;
+            if (restIndex !== -1) {
+              const rest = elements[restIndex];
+              const restType = resolveType(schema, rest.type);
+              if (restType.kind !== 'array') {
+                throw new Error(
+                  `Only rest elements of array type are supported, but found ${typeToString(
+                    restType
+                  )}`
+                );
+              }
+              for (let i = leading.length; i < trailingStart; ++i) {
+                checkElement(
+                  i,
+                  restType.elementType,
+                  `${elementName(i, rest)}, rest element`
+                );
+              }
+            }
+            for (let i = 0; i < trailing.length; ++i) {
+              const index = trailingStart + i;
+              checkElement(
+                index,
+                trailing[i].type,
+                elementName(index, trailing[i])
+              );
+            }
+          });
           break;
         }
 
@@ -525,48 +1504,76 @@ ${errors.join('\n')}`);
           checkValueAgainstTypeHelper(
             value,
             elementType,
-            schema,
+            context,
             valueString,
-            typeToShortString(type, `Partial<${typeString}>`),
+            pointer,
+            () => typeToShortString(type, `Partial<${typeString()}>`),
             depth + 1,
-            { partial: true, ignoredFields }
+            { partial: true, ignoredFields, excessFieldsChecked: true }
+          );
+          break;
+        }
+
+        case 'required': {
+          const elementType = resolveType(schema, type.elementType);
+          checkValueAgainstTypeHelper(
+            value,
+            elementType,
+            context,
+            valueString,
+            pointer,
+            () => typeToShortString(type, `Required<${typeString()}>`),
+            depth + 1,
+            { required: true, ignoredFields, excessFieldsChecked: true }
           );
           break;
         }
 
         case 'interface': {
-          checkJsType('object');
-          for (const field of type.fields) {
-            if (ignoredFields.includes(field.name)) continue;
-            if (
-              !field.optional &&
-              options?.partial !== true &&
-              !hasProperty(value, field.name)
-            ) {
-              throw new TypecheckingError(
-                `Field '${field.name}' is not optional but missing from value`
-              );
-            }
-            if (hasProperty(value, field.name)) {
-              checkValueAgainstTypeHelper(
-                value[field.name],
-                field.type,
-                schema,
-                `${valueString}['${field.name}']`,
-                typeToShortString(field.type, `${typeString}['${field.name}']`),
-                depth + 1
-              );
+          checkObject();
+          const fields = type.fields;
+          descend(() => {
+            for (const field of fields) {
+              if (ignoredFields.includes(field.name)) continue;
+              checkPart(() => {
+                if (
+                  (!field.optional || options?.required === true) &&
+                  options?.partial !== true &&
+                  !hasProperty(value, field.name)
+                ) {
+                  throw missingField(field.name, field.type);
+                }
+                if (hasProperty(value, field.name)) {
+                  checkValueAgainstTypeHelper(
+                    value[field.name],
+                    field.type,
+                    field.sensitive === true && !context.redacted
+                      ? { ...context, redacted: true }
+                      : context,
+                    `${valueString}['${field.name}']`,
+                    childPointer(pointer, field.name),
+                    () => typeToShortString(field.type, `${typeString()}['${field.name}']`),
+                    depth + 1
+                  );
+                }
+              });
             }
-          }
+          });
           for (const heritage of type.heritage) {
             checkValueAgainstTypeHelper(
               value,
               heritage,
-              schema,
+              context,
               valueString,
-              typeToString(heritage, { short: true }),
+              pointer,
+              () => typeToString(heritage, { short: true }),
               depth + 1,
-              { ignoredFields }
+              {
+                ignoredFields,
+                excessFieldsChecked: true,
+                partial: options?.partial,
+                required: options?.required,
+              }
             );
           }
           break;
@@ -575,19 +1582,762 @@ ${errors.join('\n')}`);
     },
     error => {
       // if (depth == 0) throw error;
-      throw new TypecheckingError(`${error.message}
+      throw new TypecheckingError(
+        `${error.message}
 While checking ${valueToShortString(
-        value,
-        valueString
-      )} against type ${typeToShortString(type, typeString)}`);
+          value,
+          valueString,
+          context.redacted,
+          context.redactedFields
+        )} against type ${typeToShortString(type, typeString())}`,
+        error.errors
+      );
+    }
+  );
+}
+
+// Compiled validators check values the same way as checkValueAgainstType, but the
+// schema is only interpreted once: resolved types, property lists and union discriminants
+// are precomputed, and no strings are built for valid values. Error messages are only
+// built (by checkValueAgainstType) once a value turned out to be invalid.
+export interface CompiledValidator {
+  isValid<T>(value: NotPromise<T>): boolean;
+  // Same as checkValueAgainstType.
+  check<T>(value: NotPromise<T>): string;
+  // Same as findErrors.
+  findErrors<T>(value: NotPromise<T>): CheckError[];
+  // Same as assertValueAgainstType.
+  assert<T>(value: NotPromise<T>): void;
+}
+
+// Returns true if the value conforms to the type the check was compiled for.
+type CompiledCheck = (value: unknown) => boolean;
+
+// The state checkValueAgainstTypeHelper passes down, which is fixed at compile time.
+interface CompileFlags {
+  strict: boolean;
+  partial?: boolean;
+  required?: boolean;
+  ignoredFields?: string[];
+  excessFieldsChecked?: boolean;
+  // Whether the limits of the running check are enforced, see limitedCheck.
+  limited?: boolean;
+}
+
+const compiledValidators = new WeakMap<
+  Schema,
+  WeakMap<Type, Map<string, CompiledValidator>>
+>();
+
+// Returns a validator for the given type, which is cached for the schema, type and
+// options.
+export function compileType(
+  type: Type,
+  schema: Schema,
+  options?: CheckOptions
+): CompiledValidator {
+  let validatorsOfSchema = compiledValidators.get(schema);
+  if (validatorsOfSchema === undefined) {
+    validatorsOfSchema = new WeakMap();
+    compiledValidators.set(schema, validatorsOfSchema);
+  }
+  let validatorsOfType = validatorsOfSchema.get(type);
+  if (validatorsOfType === undefined) {
+    validatorsOfType = new Map();
+    validatorsOfSchema.set(type, validatorsOfType);
+  }
+  const key = `${options?.strict === true}|${options?.allErrors === true}|${
+    options?.maxErrors
+  }|${options?.fullUnionErrors === true}|${JSON.stringify(options?.limits)}`;
+  const cached = validatorsOfType.get(key);
+  if (cached !== undefined) return cached;
+  const strict = options?.strict === true;
+  const limits = options?.limits;
+  // The node count and time budget are only enforced by the interpreter, which counts
+  // the checked values.
+  const isValid =
+    limits === undefined
+      ? lazyCheck(schema, type, { strict })
+      : limits.maxNodes === undefined && limits.timeBudgetMs === undefined
+      ? limitedCheck(lazyCheck(schema, type, { strict, limited: true }), limits)
+      : (value: unknown) =>
+          collectErrors(value, type, schema, typeToShortString(type), {
+            strict,
+            limits,
+          }).length == 0;
+  const validator: CompiledValidator = {
+    isValid,
+    check: value =>
+      isValid(value) ? '' : checkValueAgainstType(value, type, schema, options),
+    findErrors: value =>
+      isValid(value) ? [] : findErrors(value, type, schema, options),
+    assert: value => {
+      if (!isValid(value)) assertValueAgainstType(value, type, schema, options);
+    },
+  };
+  validatorsOfType.set(key, validator);
+  return validator;
+}
+
+const compiledChecks = new WeakMap<
+  Schema,
+  WeakMap<Type, Map<string, CompiledCheck>>
+>();
+
+// Checks are compiled when they are first used, which is how recursive types terminate.
+// It also means that unsupported types only throw once they are reached, like in
+// checkValueAgainstTypeHelper.
+function lazyCheck(schema: Schema, type: Type, flags: CompileFlags): CompiledCheck {
+  let check: CompiledCheck | undefined = undefined;
+  return value => {
+    if (check === undefined) check = cachedCheck(schema, type, flags);
+    return check(value);
+  };
+}
+
+function cachedCheck(schema: Schema, type: Type, flags: CompileFlags): CompiledCheck {
+  let checksOfSchema = compiledChecks.get(schema);
+  if (checksOfSchema === undefined) {
+    checksOfSchema = new WeakMap();
+    compiledChecks.set(schema, checksOfSchema);
+  }
+  let checksOfType = checksOfSchema.get(type);
+  if (checksOfType === undefined) {
+    checksOfType = new Map();
+    checksOfSchema.set(type, checksOfType);
+  }
+  const key = [
+    flags.strict,
+    flags.partial,
+    flags.required,
+    flags.excessFieldsChecked,
+    flags.limited,
+    ...(flags.ignoredFields ?? []),
+  ].join('|');
+  let check = checksOfType.get(key);
+  if (check === undefined) {
+    check = compileCheck(schema, type, flags);
+    checksOfType.set(key, check);
+  }
+  return check;
+}
+
+// The objects whose parts are being checked by compiled checks, to detect cycles like
+// CheckContext.ancestors.
+const compiledAncestors = new Set<unknown>();
+
+// The limits of the running limited check, and the depth its value is checked at.
+let compiledLimits: { limits: CheckLimits; depth: number } | undefined = undefined;
+
+// Thrown to stop a limited check once a limit has been exceeded, like LimitExceeded.
+class CompiledLimitExceeded extends Error {}
+
+// Runs the check (compiled with the limited flag) with the depth and size limits.
+function limitedCheck(check: CompiledCheck, limits: CheckLimits): CompiledCheck {
+  return value => {
+    const previous = compiledLimits;
+    compiledLimits = { limits, depth: compiledAncestors.size };
+    try {
+      return check(value);
+    } catch (error) {
+      if (error instanceof CompiledLimitExceeded) return false;
+      throw error;
+    } finally {
+      compiledLimits = previous;
     }
+  };
+}
+
+// Mirrors checkLimits for the depth and size limits.
+function checkCompiledLimits(value: unknown): boolean {
+  const { limits, depth } = assertNonNull(compiledLimits);
+  if (
+    (limits.maxDepth !== undefined &&
+      compiledAncestors.size - depth > limits.maxDepth) ||
+    (limits.maxArrayLength !== undefined &&
+      Array.isArray(value) &&
+      value.length > limits.maxArrayLength) ||
+    (limits.maxStringLength !== undefined &&
+      typeof value === 'string' &&
+      value.length > limits.maxStringLength)
+  ) {
+    throw new CompiledLimitExceeded();
+  }
+  return true;
+}
+
+// Checks the parts of the (object) value, which fails if the value is one of its own
+// parts.
+function descend(value: unknown, check: () => boolean): boolean {
+  if (compiledAncestors.has(value)) return false;
+  compiledAncestors.add(value);
+  try {
+    return check();
+  } finally {
+    compiledAncestors.delete(value);
+  }
+}
+
+// Returns false if the call throws a TypecheckingError.
+function passes(call: () => void): boolean {
+  return handleTypecheckingError(
+    () => {
+      call();
+      return true;
+    },
+    () => false
   );
 }
 
-function valueToShortString(value: unknown, valueString: string): string {
+// Mirrors checkValueAgainstTypeHelper, see there for details.
+function compileCheck(
+  schema: Schema,
+  unresolvedType: Type,
+  flags: CompileFlags
+): CompiledCheck {
+  const referenceConstraints = unresolvedType.constraints;
+  const type = resolveType(schema, unresolvedType);
+  const strict = flags.strict || type.strict === true;
+  const ignoredFields = flags.ignoredFields ?? [];
+  const child = (
+    childType: Type,
+    childFlags?: Omit<CompileFlags, 'strict' | 'limited'>
+  ) =>
+    lazyCheck(schema, childType, {
+      ...childFlags,
+      strict,
+      limited: flags.limited,
+    });
+  const checks: CompiledCheck[] = flags.limited === true ? [checkCompiledLimits] : [];
+
+  const constraints = [type.constraints, referenceConstraints].filter(
+    (c, i): c is Constraints =>
+      c !== undefined && (i == 0 || c !== type.constraints)
+  );
+  if (constraints.length > 0) {
+    checks.push(value =>
+      passes(() =>
+        // The message is not used, so the value is not printed either.
+        constraints.forEach(c => checkConstraints(value, c, 'value', true))
+      )
+    );
+  }
+  if (strict && flags.excessFieldsChecked !== true && OBJECT_KINDS.includes(type.kind)) {
+    const allowedFields = allowedFieldsOfType(schema, type);
+    if (allowedFields !== undefined) {
+      const allowed = new Set(allowedFields);
+      checks.push(
+        value =>
+          typeof value !== 'object' ||
+          value === null ||
+          Array.isArray(value) ||
+          Object.keys(value).every(field => allowed.has(field))
+      );
+    }
+  }
+  if (flags.partial === true && type.kind != 'interface') {
+    throw new Error(
+      `Can only check Partial<T> for interface T, but T was ${typeToString(
+        type
+      )}`
+    );
+  }
+  if (flags.required === true && !REQUIRED_KINDS.includes(type.kind)) {
+    throw new Error(
+      `Can only check Required<T> for interface, mapped, intersection, Omit or Pick type T, but T was ${typeToString(
+        type
+      )}`
+    );
+  }
+  checks.push(compileKind(schema, type, flags, ignoredFields, child));
+  if (checks.length == 1) return checks[0];
+  return value => checks.every(check => check(value));
+}
+
+function compileKind(
+  schema: Schema,
+  type: ResolvedType,
+  flags: CompileFlags,
+  ignoredFields: string[],
+  child: (type: Type, flags?: Omit<CompileFlags, 'strict' | 'limited'>) => CompiledCheck
+): CompiledCheck {
+  // Checks every field of an object that is not ignored.
+  const everyField = (valueCheck: CompiledCheck): CompiledCheck => value =>
+    typeof value === 'object' &&
+    value !== null &&
+    descend(value, () =>
+      Object.keys(value as object).every(
+        field =>
+          ignoredFields.includes(field) ||
+          valueCheck((value as { [field: string]: unknown })[field])
+      )
+    );
+  // Checks the given properties, like the fields of an interface.
+  const everyProperty = (
+    properties: Array<{ name: string; optional: boolean; check: CompiledCheck }>
+  ): CompiledCheck => value =>
+    descend(value, () =>
+      properties.every(property => {
+        if (hasProperty(value, property.name)) {
+          return property.check(value[property.name]);
+        }
+        return (
+          (property.optional && flags.required !== true) ||
+          flags.partial === true
+        );
+      })
+    );
+
+  switch (type.kind) {
+    case 'string': {
+      const specialName = type.specialName;
+      if (specialName === undefined) return value => typeof value === 'string';
+      const trimmed = TRIMMED_SPECIAL_TYPES.includes(specialName);
+      const builtIn = SPECIAL_TYPES.includes(specialName)
+        ? specialStringValidator(specialName)
+        : undefined;
+      return value => {
+        if (typeof value !== 'string') return false;
+        const validator = builtIn ?? registeredSpecialType(specialName);
+        if (validator !== undefined && validator(value) !== '') return false;
+        return !trimmed || value === value.trim();
+      };
+    }
+    case 'number':
+    case 'boolean': {
+      const kind = type.kind;
+      const specialName = type.specialName;
+      if (specialName === undefined) return value => typeof value === kind;
+      const builtIn = SPECIAL_NUMBER_TYPES.includes(specialName)
+        ? specialNumberValidator(specialName)
+        : undefined;
+      return value => {
+        if (typeof value !== kind) return false;
+        const validator = builtIn ?? registeredSpecialType(specialName);
+        return validator === undefined || validator(value as never) === '';
+      };
+    }
+    case 'unknown':
+      return () => true;
+    case 'generic':
+    case 'type-parameter':
+      throw new Error(
+        `Cannot check against ${typeToString(
+          type
+        )}, because it is not instantiated.`
+      );
+    case 'boolean-literal':
+    case 'string-literal':
+    case 'number-literal': {
+      const literal = type.value;
+      return value => value === literal;
+    }
+    case 'null':
+      return value => value === null;
+    case 'undefined':
+      return value => value === undefined;
+    case 'keyof': {
+      const base = type.base;
+      let keys: Set<string> | undefined = undefined;
+      return value => {
+        if (typeof value !== 'string') return false;
+        if (keys === undefined) {
+          keys = new Set(computePropertiesOfType(schema, base));
+        }
+        return keys.has(value);
+      };
+    }
+    case 'index-signature': {
+      const valueCheck = child(type.valueType);
+      return value =>
+        typeof value === 'object' &&
+        value !== null &&
+        descend(value, () =>
+          Object.keys(value as object).every(field =>
+            valueCheck((value as { [field: string]: unknown })[field])
+          )
+        );
+    }
+    case 'omit':
+      return child(type.base, {
+        ignoredFields: ignoredFields.concat(type.omittedFields),
+        excessFieldsChecked: true,
+        required: flags.required,
+      });
+    case 'pick': {
+      const pickedFields = type.pickedFields;
+      return child(type.base, {
+        ignoredFields: ignoredFields.concat(
+          computePropertiesOfType(schema, type.base).filter(
+            field => !pickedFields.includes(field)
+          )
+        ),
+        excessFieldsChecked: true,
+        required: flags.required,
+      });
+    }
+    case 'exclude':
+    case 'extract': {
+      const members = filterUnionMembers(schema, type);
+      if (members.length == 0) return () => false;
+      return child(
+        members.length == 1
+          ? members[0]
+          : { kind: 'union', unionMembers: members },
+        { ignoredFields, excessFieldsChecked: flags.excessFieldsChecked }
+      );
+    }
+    case 'non-nullable': {
+      const elementCheck = child(type.elementType, {
+        ignoredFields,
+        excessFieldsChecked: flags.excessFieldsChecked,
+      });
+      return value =>
+        value !== null && value !== undefined && elementCheck(value);
+    }
+    case 'mapped': {
+      const mapToCheck = child(type.mapTo);
+      if (type.mapFrom.kind === 'string') return everyField(mapToCheck);
+      let properties = undefined;
+      try {
+        properties = computePropertiesOfType(schema, type);
+      } catch (e) {
+        // do nothing
+      }
+      if (properties === undefined) return everyField(mapToCheck);
+      const optional = type.optional;
+      const check = everyProperty(
+        properties
+          .filter(property => !ignoredFields.includes(property))
+          .map(name => ({ name, optional, check: mapToCheck }))
+      );
+      return value =>
+        typeof value === 'object' && value !== null && check(value);
+    }
+    case 'template-literal': {
+      const matcher = templateLiteralMatcher(schema, type);
+      return value => typeof value === 'string' && matcher.full.test(value);
+    }
+    case 'enum': {
+      const values = type.members.map(member => member.value);
+      const jsTypes = values.every(value => typeof value === 'string')
+        ? ['string']
+        : values.every(value => typeof value === 'number')
+        ? ['number']
+        : ['string', 'number'];
+      return value =>
+        jsTypes.includes(typeof value) &&
+        values.includes(value as string | number);
+    }
+    case 'intersection': {
+      const memberChecks = type.intersectionMembers.map(member =>
+        child(member, {
+          ignoredFields,
+          excessFieldsChecked: true,
+          required: flags.required,
+        })
+      );
+      return value => memberChecks.every(check => check(value));
+    }
+    case 'union': {
+      const enums = isEnum(type);
+      if (enums !== undefined) {
+        return value =>
+          typeof value === 'string' && enums.includes(value as string);
+      }
+      const memberFlags = {
+        ignoredFields,
+        excessFieldsChecked: flags.excessFieldsChecked,
+      };
+      if (
+        type.discriminant !== undefined &&
+        !ignoredFields.includes(type.discriminant.field)
+      ) {
+        const { field, members } = type.discriminant;
+        const unionMembers = type.unionMembers;
+        const memberChecks = new Map<number, CompiledCheck>();
+        return value => {
+          if (typeof value !== 'object' || value === null) return false;
+          const key = discriminantKey((value as Record<string, unknown>)[field]);
+          if (key === undefined || !(key in members)) return false;
+          const index = members[key];
+          let check = memberChecks.get(index);
+          if (check === undefined) {
+            check = child(unionMembers[index], memberFlags);
+            memberChecks.set(index, check);
+          }
+          return check(value);
+        };
+      }
+      const memberChecks = type.unionMembers.map(member =>
+        child(member, memberFlags)
+      );
+      return value => memberChecks.some(check => check(value));
+    }
+    case 'array': {
+      const elementCheck = child(type.elementType);
+      return value =>
+        Array.isArray(value) && descend(value, () => value.every(elementCheck));
+    }
+    case 'tuple': {
+      const elements = type.elements;
+      const restIndex = elements.findIndex(element => element.rest);
+      const leading =
+        restIndex === -1 ? elements : elements.slice(0, restIndex);
+      const trailing = restIndex === -1 ? [] : elements.slice(restIndex + 1);
+      const minLength =
+        leading.filter(element => !element.optional).length + trailing.length;
+      const maxLength = restIndex === -1 ? elements.length : Infinity;
+      const leadingChecks = leading.map(element => child(element.type));
+      const trailingChecks = trailing.map(element => child(element.type));
+      let restCheck: CompiledCheck | undefined = undefined;
+      const rest = () => {
+        if (restCheck === undefined) {
+          const restType = resolveType(schema, elements[restIndex].type);
+          if (restType.kind !== 'array') {
+            throw new Error(
+              `Only rest elements of array type are supported, but found ${typeToString(
+                restType
+              )}`
+            );
+          }
+          restCheck = child(restType.elementType);
+        }
+        return restCheck;
+      };
+      return value => {
+        if (
+          !Array.isArray(value) ||
+          value.length < minLength ||
+          value.length > maxLength
+        ) {
+          return false;
+        }
+        return descend(value, () => {
+          for (let i = 0; i < leadingChecks.length && i < value.length; ++i) {
+            if (!leadingChecks[i](value[i])) return false;
+          }
+          const trailingStart = value.length - trailing.length;
+          if (restIndex !== -1) {
+            const restCheck = rest();
+            for (let i = leading.length; i < trailingStart; ++i) {
+              if (!restCheck(value[i])) return false;
+            }
+          }
+          for (let i = 0; i < trailingChecks.length; ++i) {
+            if (!trailingChecks[i](value[trailingStart + i])) return false;
+          }
+          return true;
+        });
+      };
+    }
+    case 'partial':
+    case 'required':
+      return child(resolveType(schema, type.elementType), {
+        partial: type.kind == 'partial',
+        required: type.kind == 'required',
+        ignoredFields,
+        excessFieldsChecked: true,
+      });
+    case 'interface': {
+      const fieldsCheck = everyProperty(
+        type.fields
+          .filter(field => !ignoredFields.includes(field.name))
+          .map(field => ({
+            name: field.name,
+            optional: field.optional,
+            check: child(field.type),
+          }))
+      );
+      const heritageChecks = type.heritage.map(heritage =>
+        child(heritage, {
+          ignoredFields,
+          excessFieldsChecked: true,
+          partial: flags.partial,
+          required: flags.required,
+        })
+      );
+      return value =>
+        typeof value === 'object' &&
+        value !== null &&
+        fieldsCheck(value) &&
+        heritageChecks.every(check => check(value));
+    }
+  }
+}
+
+export interface TemplateLiteralMatcher {
+  // Matches the entire template literal.
+  full: RegExp;
+  // prefixes[i] matches the head and the first i spans, which allows finding the span
+  // that failed to match.
+  prefixes: RegExp[];
+}
+
+const templateLiteralMatchers = new WeakMap<
+  TemplateLiteralSpan[],
+  TemplateLiteralMatcher
+>();
+
+// Compiles a template literal type into regular expressions. Matchers are cached by
+// the (shared) spans array, since resolving a type creates shallow copies.
+export function templateLiteralMatcher(
+  schema: Schema,
+  type: TemplateLiteralType
+): TemplateLiteralMatcher {
+  const cached = templateLiteralMatchers.get(type.spans);
+  if (cached !== undefined) return cached;
+  let source = escapeRegExp(type.head);
+  const prefixes = [new RegExp(`^${source}`)];
+  for (const span of type.spans) {
+    source += `(?:${placeholderToRegExpSource(schema, span.type)})${escapeRegExp(
+      span.literal
+    )}`;
+    prefixes.push(new RegExp(`^${source}`));
+  }
+  const result = { full: new RegExp(`^${source}$`), prefixes };
+  templateLiteralMatchers.set(type.spans, result);
+  return result;
+}
+
+function placeholderToRegExpSource(schema: Schema, type: Type): string {
+  const resolved = resolveType(schema, type);
+  switch (resolved.kind) {
+    case 'string':
+      return '[\\s\\S]*';
+    case 'number':
+      // Like Typescript, any non-empty string that Number() converts to a finite number,
+      // including hex, octal and binary literals and surrounding whitespace (and only
+      // whitespace, which is 0), but not Infinity. Unlike Typescript, decimals that
+      // overflow to Infinity (e.g. 1e999) are accepted.
+      return '\\s*(?:[+-]?(?:\\d+\\.?\\d*|\\.\\d+)(?:[eE][+-]?\\d+)?|0[xX][\\da-fA-F]+|0[oO][0-7]+|0[bB][01]+)\\s*|\\s+';
+    case 'boolean':
+      return 'true|false';
+    case 'null':
+    case 'undefined':
+      return resolved.kind;
+    case 'string-literal':
+      return escapeRegExp(resolved.value);
+    case 'number-literal':
+    case 'boolean-literal':
+      return escapeRegExp(String(resolved.value));
+    case 'template-literal':
+      return `${escapeRegExp(resolved.head)}${resolved.spans
+        .map(
+          span =>
+            `(?:${placeholderToRegExpSource(schema, span.type)})${escapeRegExp(
+              span.literal
+            )}`
+        )
+        .join('')}`;
+    case 'union':
+      return resolveUnionMembers(schema, resolved)
+        .map(member => `(?:${placeholderToRegExpSource(schema, member)})`)
+        .join('|');
+    case 'keyof':
+      return computePropertiesOfType(schema, resolved.base)
+        .map(escapeRegExp)
+        .join('|');
+    case 'enum':
+      return resolved.members
+        .map(member => escapeRegExp(`${member.value}`))
+        .join('|');
+    default:
+      throw new Error(
+        `Unsupported placeholder type ${typeToString(
+          resolved
+        )} in template literal type`
+      );
+  }
+}
+
+function escapeRegExp(s: string): string {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Throws a LimitExceeded error if checking the value (which is part of the whole value)
+// exceeds one of the limits.
+function checkLimits(
+  state: NonNullable<CheckContext['limits']>,
+  value: unknown,
+  valueString: string,
+  pointer: string,
+  expected: () => string
+) {
+  const { limits } = state;
+  const exceeded = (message: string) => {
+    message = `Exceeded the ${message} at ${valueString}`;
+    return new LimitExceeded({
+      path: valueString,
+      pointer,
+      code: 'limit-exceeded',
+      expected: expected(),
+      actual: javascriptTypeOf(value),
+      message,
+    });
+  };
+  state.nodes++;
+  if (limits.maxNodes !== undefined && state.nodes > limits.maxNodes) {
+    throw exceeded(
+      `maximum number of ${pluralize(limits.maxNodes, 'checked value')}`
+    );
+  }
+  if (limits.timeBudgetMs !== undefined && Date.now() > state.deadline) {
+    throw exceeded(`time budget of ${limits.timeBudgetMs} ms`);
+  }
+  if (
+    limits.maxDepth !== undefined &&
+    pointer.split('/').length - 1 > limits.maxDepth
+  ) {
+    throw exceeded(`maximum depth of ${limits.maxDepth}`);
+  }
+  if (
+    limits.maxArrayLength !== undefined &&
+    Array.isArray(value) &&
+    value.length > limits.maxArrayLength
+  ) {
+    throw exceeded(
+      `maximum array length of ${limits.maxArrayLength} with ${pluralize(
+        value.length,
+        'element'
+      )}`
+    );
+  }
+  if (
+    limits.maxStringLength !== undefined &&
+    typeof value === 'string' &&
+    value.length > limits.maxStringLength
+  ) {
+    throw exceeded(
+      `maximum string length of ${limits.maxStringLength} with ${pluralize(
+        value.length,
+        'character'
+      )}`
+    );
+  }
+}
+
+// The text that shows (a part of) the value in an error message, or the alternative if
+// it is redacted.
+function shownValue(
+  text: string,
+  redacted: boolean,
+  alternative = REDACTED
+): string {
+  return redacted ? alternative : text;
+}
+
+function valueToShortString(
+  value: unknown,
+  valueString: string,
+  redacted: boolean,
+  redactedFields: string[]
+): string {
+  // Large values are not stringified at all, as they might be huge.
+  if (redacted || !mightBeShorter(value, 40, redactedFields)) return valueString;
   const result =
     typeof value === 'object'
-      ? JSON.stringify(value)
+      ? JSON.stringify(value, jsonReplacer(redactedFields))
       : typeof value === 'string'
       ? `'${value}'`
       : String(value);
@@ -595,6 +2345,111 @@ function valueToShortString(value: unknown, valueString: string): string {
   return valueString;
 }
 
+// Whether the JSON of the value (with the given fields redacted) might be shorter than the
+// given length, which is decided without looking at more of the value than that.
+function mightBeShorter(
+  value: unknown,
+  length: number,
+  redactedFields: string[]
+): boolean {
+  let remaining = length;
+  const visit = (value: unknown) => {
+    if (typeof value === 'string') {
+      remaining -= value.length + 2;
+    } else if (Array.isArray(value)) {
+      remaining -= 2;
+      for (let i = 0; i < value.length && remaining > 0; i++) visit(value[i]);
+    } else if (typeof value === 'object' && value !== null) {
+      remaining -= 2;
+      for (const key in value) {
+        if (remaining <= 0) break;
+        if (!Object.prototype.hasOwnProperty.call(value, key)) continue;
+        const child = (value as Record<string, unknown>)[key];
+        // Like JSON.stringify, skip fields that are undefined or functions.
+        if (child === undefined || typeof child === 'function') continue;
+        remaining -= key.length + 3;
+        if (redactedFields.includes(key)) {
+          remaining -= REDACTED.length + 2;
+        } else {
+          visit(child);
+        }
+      }
+    } else {
+      remaining -= 1;
+    }
+  };
+  visit(value);
+  return remaining > 0;
+}
+
+// Appends a reference token to an RFC 6901 JSON Pointer.
+function childPointer(pointer: string, token: string): string {
+  return `${pointer}/${token.replace(/~/g, '~0').replace(/\//g, '~1')}`;
+}
+
+function javascriptTypeOf(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+// Scores how close the value (that doesn't match the union member) is to the member, by
+// looking at the fields of interfaces.
+function unionMemberAttempt(
+  context: CheckContext,
+  member: Type,
+  value: unknown,
+  valueString: string,
+  pointer: string,
+  error: TypecheckingError
+): UnionMemberAttempt {
+  const attempt = { error, discriminants: 0, matchedFields: 0 };
+  // With limits, fields are checked by the interpreter, which enforces them.
+  const conforms = (fieldValue: unknown, field: Field) =>
+    context.limits === undefined
+      ? compileType(field.type, context.schema, {
+          strict: context.strict,
+        }).isValid(fieldValue)
+      : handleTypecheckingError(
+          () => {
+            checkValueAgainstTypeHelper(
+              fieldValue,
+              field.type,
+              { ...context, errors: undefined },
+              `${valueString}['${field.name}']`,
+              childPointer(pointer, field.name),
+              () => typeToShortString(field.type),
+              0
+            );
+            return true;
+          },
+          () => false
+        );
+  const resolved = resolveType(context.schema, member);
+  if (
+    resolved.kind !== 'interface' ||
+    typeof value !== 'object' ||
+    value === null ||
+    Array.isArray(value)
+  ) {
+    return attempt;
+  }
+  for (const field of resolved.fields) {
+    if (!hasProperty(value, field.name)) continue;
+    const fieldValue = (value as Record<string, unknown>)[field.name];
+    if (
+      field.type.kind === 'string-literal' ||
+      field.type.kind === 'number-literal' ||
+      field.type.kind === 'boolean-literal'
+    ) {
+      attempt.discriminants += fieldValue === field.type.value ? 1 : -1;
+    } else if (conforms(fieldValue, field)) {
+      attempt.matchedFields++;
+    }
+  }
+  return attempt;
+}
+
 function handleTypecheckingError<T>(
   call: () => T,
   errorHandler: (error: TypecheckingError) => T
@@ -610,11 +2465,16 @@ function handleTypecheckingError<T>(
   }
 }
 
-function ith(i: number) {
-  return `${i}${i == 1 ? 'st' : i == 2 ? 'nd' : i == 3 ? 'rd' : 'th'}`;
+// A value of a discriminant field, for error messages.
+export function discriminantToString(value: unknown): string {
+  return typeof value === 'string' ? `'${value}'` : String(value);
+}
+
+export function pluralize(n: number, noun: string) {
+  return `${n} ${noun}${n == 1 ? '' : 's'}`;
 }
 
-function typeToShortString(type: Type, alternative?: string): string {
+export function typeToShortString(type: Type, alternative?: string): string {
   if (type.name !== undefined) return type.name;
   const str = typeToString(type, { short: true });
   if (
@@ -626,7 +2486,7 @@ function typeToShortString(type: Type, alternative?: string): string {
   return alternative;
 }
 
-function resolveUnionMembers(schema: Schema, type: UnionType): Type[] {
+export function resolveUnionMembers(schema: Schema, type: UnionType): Type[] {
   const result: Type[] = [];
 
   for (const member of type.unionMembers) {
@@ -639,3 +2499,183 @@ function resolveUnionMembers(schema: Schema, type: UnionType): Type[] {
   }
   return result;
 }
+
+// The member of a union with a discriminant for the value of its discriminant field, or
+// undefined if the value has no valid value for the field.
+export function discriminatedMember(
+  schema: Schema,
+  type: UnionType,
+  value: unknown
+): ResolvedType | undefined {
+  const discriminant = assertNonNull(type.discriminant);
+  if (typeof value !== 'object' || value === null) return undefined;
+  const key = discriminantKey(
+    (value as Record<string, unknown>)[discriminant.field]
+  );
+  if (key === undefined || !(key in discriminant.members)) return undefined;
+  return resolveType(schema, type.unionMembers[discriminant.members[key]]);
+}
+
+// The member of the union (or Exclude<T, U> or Extract<T, U>) that the value conforms to:
+// the member for the value of the discriminant field for unions with a discriminant, and
+// the first member that matches best otherwise. Ignored fields (e.g. of Omit<T, K>) are
+// left out when matching the members.
+export function matchingUnionMember(
+  schema: Schema,
+  type: UnionType | ExcludeType | ExtractType,
+  value: unknown,
+  options?: CheckOptions,
+  ignoredFields: string[] = []
+): Type | undefined {
+  if (
+    type.kind === 'union' &&
+    type.discriminant !== undefined &&
+    !ignoredFields.includes(type.discriminant.field)
+  ) {
+    return discriminatedMember(schema, type, value);
+  }
+  const members =
+    type.kind === 'union' ? type.unionMembers : filterUnionMembers(schema, type);
+  const matches = (member: Type, strict: boolean) =>
+    compileType(omitFields(member, ignoredFields), schema, { strict }).isValid(value);
+  // Prefer members without excess fields, e.g. { a: 1, b: 2 } matches { a: number } only
+  // because it is not strict, but { a: number; b: number } exactly.
+  return (
+    members.find(member => matches(member, true)) ??
+    members.find(member => matches(member, options?.strict === true))
+  );
+}
+
+const omittedFieldTypes = new WeakMap<Type, Map<string, OmitType>>();
+
+// Omit<T, K> for the type and fields, which is cached so that its validator is compiled once.
+export function omitFields(type: Type, fields: string[]): Type {
+  if (fields.length === 0) return type;
+  let omitTypes = omittedFieldTypes.get(type);
+  if (omitTypes === undefined) {
+    omitTypes = new Map();
+    omittedFieldTypes.set(type, omitTypes);
+  }
+  const key = JSON.stringify(fields);
+  let result = omitTypes.get(key);
+  if (result === undefined) {
+    result = { kind: 'omit', base: type, omittedFields: fields };
+    omitTypes.set(key, result);
+  }
+  return result;
+}
+
+// Returns the union members of an Exclude<T, U> or Extract<T, U> type that remain after
+// filtering by assignability to U.
+export function filterUnionMembers(
+  schema: Schema,
+  type: ExcludeType | ExtractType
+): Type[] {
+  const filter = type.kind == 'exclude' ? type.excludedType : type.extractedType;
+  return expandUnionMembers(schema, type.base).filter(
+    member => isAssignableTo(schema, member, filter) === (type.kind == 'extract')
+  );
+}
+
+// Returns the members of the given type if it was a union, where booleans and enums
+// are treated as unions of their literals (the same way TypeScript does).
+function expandUnionMembers(schema: Schema, type: Type): Type[] {
+  const resolved = resolveType(schema, type);
+  switch (resolved.kind) {
+    case 'union':
+      return resolveUnionMembers(schema, resolved).flatMap(member =>
+        expandUnionMembers(schema, member)
+      );
+    case 'boolean':
+      return [
+        { kind: 'boolean-literal', value: false },
+        { kind: 'boolean-literal', value: true },
+      ];
+    case 'enum':
+      return resolved.members.map(member =>
+        typeof member.value === 'string'
+          ? { kind: 'string-literal', value: member.value }
+          : { kind: 'number-literal', value: member.value }
+      );
+    case 'exclude':
+    case 'extract':
+      return filterUnionMembers(schema, resolved);
+    default:
+      return [resolved];
+  }
+}
+
+// Returns true if source is assignable to target. This is a conservative approximation of
+// TypeScript's assignability that covers what is typically used with Exclude and Extract:
+// primitives, literals and (discriminated) object types.
+function isAssignableTo(schema: Schema, source: Type, target: Type): boolean {
+  const targets = expandUnionMembers(schema, target);
+  if (targets.length != 1) {
+    return targets.some(member => isAssignableTo(schema, source, member));
+  }
+  const t = targets[0];
+  const s = resolveType(schema, source);
+  if (t.kind == 'unknown') return true;
+  switch (s.kind) {
+    case 'string':
+    case 'number':
+    case 'boolean':
+      return (
+        t.kind == s.kind &&
+        (t.specialName === undefined || t.specialName === s.specialName)
+      );
+    case 'null':
+    case 'undefined':
+      return t.kind == s.kind;
+    case 'string-literal':
+      return (
+        (t.kind == 'string-literal' && t.value === s.value) ||
+        (t.kind == 'string' && t.specialName === undefined) ||
+        (t.kind == 'template-literal' &&
+          templateLiteralMatcher(schema, t).full.test(s.value))
+      );
+    case 'number-literal':
+      return (
+        (t.kind == 'number-literal' && t.value === s.value) ||
+        (t.kind == 'number' && t.specialName === undefined)
+      );
+    case 'boolean-literal':
+      return (
+        (t.kind == 'boolean-literal' && t.value === s.value) ||
+        (t.kind == 'boolean' && t.specialName === undefined)
+      );
+    case 'template-literal':
+      return t.kind == 'string' && t.specialName === undefined;
+    case 'interface': {
+      if (t.kind != 'interface') return false;
+      const sourceFields = interfaceFields(schema, s);
+      return interfaceFields(schema, t).every(targetField => {
+        const sourceField = sourceFields.find(
+          field => field.name == targetField.name
+        );
+        if (sourceField === undefined) return targetField.optional;
+        return (
+          (targetField.optional || !sourceField.optional) &&
+          isAssignableTo(schema, sourceField.type, targetField.type)
+        );
+      });
+    }
+    default:
+      return false;
+  }
+}
+
+// Returns all fields of an interface, including the ones from its heritage.
+function interfaceFields(schema: Schema, type: InterfaceType): Field[] {
+  const result = [...type.fields];
+  for (const heritage of type.heritage) {
+    const resolved = resolveType(schema, heritage);
+    if (resolved.kind != 'interface') continue;
+    for (const field of interfaceFields(schema, resolved)) {
+      if (!result.some(existing => existing.name == field.name)) {
+        result.push(field);
+      }
+    }
+  }
+  return result;
+}
@@ -0,0 +1,319 @@
+// Coercion of values that only consist of strings (like URL query parameters, form data
+// and environment variables) into the types they are checked against.
+
+import {
+  Schema,
+  Type,
+  discriminantValues,
+  resolveType,
+  tupleElementType,
+} from './type-definitions';
+import {
+  CheckOptions,
+  assertValueAgainstType,
+  compileType,
+  computePropertiesOfType,
+  discriminatedMember,
+  filterUnionMembers,
+  omitFields,
+} from './check-type';
+import { setField } from './language';
+
+// Returns a copy of the value, where strings are converted to what the type expects:
+// numbers (e.g. '42'), booleans ('true' and 'false'), arrays (from repeated or
+// comma-separated parameters), and undefined for empty optional fields. Throws a
+// TypecheckingError like assertValueAgainstType if the result does not conform to the
+// type.
+export function coerceValueAgainstType(
+  value: unknown,
+  type: Type,
+  schema: Schema,
+  options?: CheckOptions
+): unknown {
+  const result = coerceValue(value, type, schema, options);
+  assertValueAgainstType(result, type, schema, options);
+  return result;
+}
+
+function coerceValue(
+  value: unknown,
+  type: Type,
+  schema: Schema,
+  options: CheckOptions | undefined,
+  partial = false,
+  // Fields that are not part of the type, e.g. of Omit<T, K>.
+  ignoredFields: string[] = [],
+  // The values that contain the one being coerced, like CheckContext.ancestors.
+  ancestors = new Set<unknown>()
+): unknown {
+  const resolved = resolveType(schema, type);
+  const coerce = (value: unknown, type: Type) =>
+    coerceValue(value, type, schema, options, false, ignoredFields, ancestors);
+  // Coerces a part of the value, unless it is the value itself or contains it, which is
+  // left as it is (and reported as a cyclic value by the check afterwards).
+  const coercePart = (part: unknown, type: Type) => {
+    if (part === value || ancestors.has(part)) return part;
+    ancestors.add(value);
+    try {
+      return coerceValue(part, type, schema, options, false, [], ancestors);
+    } finally {
+      ancestors.delete(value);
+    }
+  };
+  switch (resolved.kind) {
+    case 'number':
+    case 'number-literal':
+      return coerceNumber(value);
+    case 'boolean':
+    case 'boolean-literal':
+      return coerceBoolean(value);
+    case 'enum':
+      // Only numeric members need a conversion.
+      if (
+        typeof value === 'string' &&
+        resolved.members.some(member => member.value === coerceNumber(value))
+      ) {
+        return coerceNumber(value);
+      }
+      return value;
+    case 'array': {
+      const elements = coerceArray(value);
+      if (elements === undefined) return value;
+      const elementType = resolved.elementType;
+      return elements.map(element => coercePart(element, elementType));
+    }
+    case 'tuple': {
+      const elements = coerceArray(value);
+      if (elements === undefined) return value;
+      return elements.map((element, i) => {
+        const elementType = tupleElementType(
+          schema,
+          resolved,
+          elements.length,
+          i
+        );
+        return elementType === undefined
+          ? element
+          : coercePart(element, elementType);
+      });
+    }
+    case 'interface': {
+      if (!isObject(value)) return value;
+      let result: Record<string, unknown> = { ...value };
+      for (const field of resolved.fields) {
+        if (ignoredFields.includes(field.name)) continue;
+        coerceField(
+          result,
+          field.name,
+          field.type,
+          field.optional || partial,
+          coercePart
+        );
+      }
+      for (const heritage of resolved.heritage) {
+        result = coerceValue(
+          result,
+          heritage,
+          schema,
+          options,
+          partial,
+          ignoredFields,
+          ancestors
+        ) as Record<string, unknown>;
+      }
+      return result;
+    }
+    case 'mapped':
+    case 'index-signature': {
+      if (!isObject(value)) return value;
+      const valueType =
+        resolved.kind === 'mapped' ? resolved.mapTo : resolved.valueType;
+      const optional =
+        (resolved.kind === 'mapped' && resolved.optional === true) || partial;
+      const result: Record<string, unknown> = { ...value };
+      for (const field of Object.keys(value)) {
+        coerceField(result, field, valueType, optional, coercePart);
+      }
+      return result;
+    }
+    case 'intersection':
+      return resolved.intersectionMembers.reduce(
+        (result, member) =>
+          coerceValue(
+            result,
+            member,
+            schema,
+            options,
+            partial,
+            ignoredFields,
+            ancestors
+          ),
+        value
+      );
+    case 'omit':
+      return coerceValue(
+        value,
+        resolved.base,
+        schema,
+        options,
+        partial,
+        ignoredFields.concat(resolved.omittedFields),
+        ancestors
+      );
+    case 'pick': {
+      const pickedFields = resolved.pickedFields;
+      return coerceValue(
+        value,
+        resolved.base,
+        schema,
+        options,
+        partial,
+        ignoredFields.concat(
+          computePropertiesOfType(schema, resolved.base).filter(
+            field => !pickedFields.includes(field)
+          )
+        ),
+        ancestors
+      );
+    }
+    case 'partial':
+      return coerceValue(
+        value,
+        resolved.elementType,
+        schema,
+        options,
+        true,
+        ignoredFields,
+        ancestors
+      );
+    case 'required':
+    case 'non-nullable':
+      return coerce(value, resolved.elementType);
+    case 'exclude':
+    case 'extract':
+      return coerceUnion(
+        value,
+        filterUnionMembers(schema, resolved),
+        schema,
+        options,
+        ignoredFields,
+        ancestors
+      );
+    case 'union': {
+      if (
+        resolved.discriminant !== undefined &&
+        !ignoredFields.includes(resolved.discriminant.field)
+      ) {
+        const discriminated = coerceDiscriminant(
+          value,
+          resolved.discriminant.field,
+          discriminantValues(resolved.discriminant)
+        );
+        const member = discriminatedMember(schema, resolved, discriminated);
+        if (member !== undefined) return coerce(discriminated, member);
+      }
+      return coerceUnion(
+        value,
+        resolved.unionMembers,
+        schema,
+        options,
+        ignoredFields,
+        ancestors
+      );
+    }
+    default:
+      return value;
+  }
+}
+
+// Uses the first member of the union that the value can be coerced to, unless the value
+// already conforms to the union.
+function coerceUnion(
+  value: unknown,
+  members: Type[],
+  schema: Schema,
+  options: CheckOptions | undefined,
+  ignoredFields: string[],
+  ancestors: Set<unknown>
+): unknown {
+  const conforms = (value: unknown, type: Type) =>
+    compileType(omitFields(type, ignoredFields), schema, {
+      strict: options?.strict,
+    }).isValid(value);
+  if (members.some(member => conforms(value, member))) return value;
+  for (const member of members) {
+    const result = coerceValue(
+      value,
+      member,
+      schema,
+      options,
+      false,
+      ignoredFields,
+      ancestors
+    );
+    if (conforms(result, member)) return result;
+  }
+  return value;
+}
+
+// Returns a copy of the object where the discriminant field is coerced to the discriminant
+// value it stands for (e.g. 'true' to true), so that the union member can be found.
+function coerceDiscriminant(
+  value: unknown,
+  field: string,
+  values: Array<string | number | boolean>
+): unknown {
+  if (!isObject(value) || typeof value[field] !== 'string') return value;
+  const fieldValue = value[field];
+  const coerced = values.find(
+    candidate =>
+      candidate === fieldValue ||
+      (typeof candidate === 'number' && candidate === coerceNumber(fieldValue)) ||
+      (typeof candidate === 'boolean' && candidate === coerceBoolean(fieldValue))
+  );
+  if (coerced === undefined || coerced === fieldValue) return value;
+  const result = { ...value };
+  setField(result, field, coerced);
+  return result;
+}
+
+// Coerces the field of the (copied) object in place.
+function coerceField(
+  result: Record<string, unknown>,
+  field: string,
+  fieldType: Type,
+  optional: boolean,
+  coerce: (value: unknown, type: Type) => unknown
+) {
+  if (!(field in result)) return;
+  if (optional && result[field] === '') {
+    delete result[field];
+  } else {
+    setField(result, field, coerce(result[field], fieldType));
+  }
+}
+
+function coerceNumber(value: unknown): unknown {
+  if (typeof value !== 'string' || value.trim() === '') return value;
+  const result = Number(value);
+  return isNaN(result) ? value : result;
+}
+
+function coerceBoolean(value: unknown): unknown {
+  if (value === 'true') return true;
+  if (value === 'false') return false;
+  return value;
+}
+
+// Repeated parameters are already arrays, and single parameters can contain a
+// comma-separated list.
+function coerceArray(value: unknown): unknown[] | undefined {
+  if (Array.isArray(value)) return value;
+  if (typeof value !== 'string') return undefined;
+  if (value === '') return [];
+  return value.split(',');
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,147 @@
+// Filling in the default values (from `@default` JSDoc tags) of missing optional fields.
+
+import { Schema, Type, resolveType, tupleElementType } from './type-definitions';
+import {
+  CheckOptions,
+  NotPromise,
+  assertValueAgainstType,
+  computePropertiesOfType,
+  matchingUnionMember,
+} from './check-type';
+import { setField } from './language';
+
+// The type T, where the fields K (which have default values) are present. This is shallow:
+// nested objects keep their types, even though their defaults are filled in as well.
+export type WithDefaults<T, K extends keyof T> = T & Required<Pick<T, K>>;
+
+// Throws a TypecheckingError like assertValueAgainstType if the value does not conform to
+// the type, and returns a copy where missing optional fields are filled with their
+// default values (also in nested objects) otherwise.
+export function assertValueWithDefaults<T>(
+  value: NotPromise<T>,
+  type: Type,
+  schema: Schema,
+  options?: CheckOptions
+): unknown {
+  assertValueAgainstType(value, type, schema, options);
+  return fillDefaults(value, type, schema, options, []);
+}
+
+function fillDefaults(
+  value: unknown,
+  type: Type,
+  schema: Schema,
+  options: CheckOptions | undefined,
+  ignoredFields: string[]
+): unknown {
+  const resolved = resolveType(schema, type);
+  const fill = (value: unknown, type: Type) =>
+    fillDefaults(value, type, schema, options, []);
+  switch (resolved.kind) {
+    case 'interface': {
+      if (!isObject(value)) return value;
+      let result: Record<string, unknown> = { ...value };
+      for (const field of resolved.fields) {
+        if (ignoredFields.includes(field.name)) continue;
+        if (result[field.name] !== undefined) {
+          setField(result, field.name, fill(result[field.name], field.type));
+        } else if ('default' in field) {
+          // Defaults are JSON, and every value gets its own copy.
+          setField(result, field.name, JSON.parse(JSON.stringify(field.default)));
+        }
+      }
+      for (const heritage of resolved.heritage) {
+        result = fillDefaults(
+          result,
+          heritage,
+          schema,
+          options,
+          ignoredFields
+        ) as Record<string, unknown>;
+      }
+      return result;
+    }
+    case 'mapped':
+    case 'index-signature': {
+      if (!isObject(value)) return value;
+      const valueType =
+        resolved.kind === 'mapped' ? resolved.mapTo : resolved.valueType;
+      const result: Record<string, unknown> = { ...value };
+      for (const field of Object.keys(result)) {
+        if (ignoredFields.includes(field)) continue;
+        setField(result, field, fill(result[field], valueType));
+      }
+      return result;
+    }
+    case 'array': {
+      if (!Array.isArray(value)) return value;
+      const elementType = resolved.elementType;
+      return value.map(element => fill(element, elementType));
+    }
+    case 'tuple': {
+      if (!Array.isArray(value)) return value;
+      return value.map((element, i) => {
+        const elementType = tupleElementType(schema, resolved, value.length, i);
+        return elementType === undefined ? element : fill(element, elementType);
+      });
+    }
+    case 'intersection':
+      return resolved.intersectionMembers.reduce(
+        (result, member) =>
+          fillDefaults(result, member, schema, options, ignoredFields),
+        value
+      );
+    case 'omit':
+      return fillDefaults(
+        value,
+        resolved.base,
+        schema,
+        options,
+        ignoredFields.concat(resolved.omittedFields)
+      );
+    case 'pick': {
+      const pickedFields = resolved.pickedFields;
+      return fillDefaults(
+        value,
+        resolved.base,
+        schema,
+        options,
+        ignoredFields.concat(
+          computePropertiesOfType(schema, resolved.base).filter(
+            field => !pickedFields.includes(field)
+          )
+        )
+      );
+    }
+    case 'partial':
+    case 'required':
+    case 'non-nullable':
+      return fillDefaults(
+        value,
+        resolved.elementType,
+        schema,
+        options,
+        ignoredFields
+      );
+    case 'exclude':
+    case 'extract':
+    case 'union': {
+      const member = matchingUnionMember(
+        schema,
+        resolved,
+        value,
+        options,
+        ignoredFields
+      );
+      return member === undefined
+        ? value
+        : fillDefaults(value, member, schema, options, ignoredFields);
+    }
+    default:
+      return value;
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
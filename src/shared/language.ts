@@ -11,10 +11,41 @@ export function assertNonNull<T>(
   return value;
 }
 
+// How redacted values are printed in error messages.
+export const REDACTED = '[redacted]';
+
 // Returns a string JSON representation of an arbitrary object with reasonable indentation.
-export function objectToJson(value: unknown): string {
+export function objectToJson(
+  value: unknown,
+  redactedFields: string[] = []
+): string {
   if (value === undefined) return 'undefined';
-  return JSON.stringify(value, null, 2);
+  return JSON.stringify(value, jsonReplacer(redactedFields), 2);
+}
+
+// A replacer for JSON.stringify that prints objects that contain themselves with
+// "[Circular]" in place of the cycle, and the values of fields with one of the given names
+// as "[redacted]".
+export function jsonReplacer(redactedFields: string[] = []) {
+  // The objects that contain the one being stringified.
+  const ancestors: unknown[] = [];
+  return function (this: unknown, key: string, child: unknown) {
+    if (
+      redactedFields.includes(key) &&
+      !Array.isArray(this) &&
+      child !== undefined &&
+      typeof child !== 'function'
+    ) {
+      return REDACTED;
+    }
+    if (typeof child !== 'object' || child === null) return child;
+    while (ancestors.length > 0 && ancestors[ancestors.length - 1] !== this) {
+      ancestors.pop();
+    }
+    if (ancestors.includes(child)) return '[Circular]';
+    ancestors.push(child);
+    return child;
+  };
 }
 
 /** Returns true iff object[kindField] is part of array. If that's the case, the type of object
@@ -52,6 +83,21 @@ export function hasProperty<T, Field extends PropertyKey>(
   );
 }
 
+// Sets the field of the object like object[field] = value, but also for fields named
+// __proto__ (e.g. from JSON.parse), which would otherwise set the object's prototype.
+export function setField(
+  object: Record<string, unknown>,
+  field: string,
+  value: unknown
+) {
+  Object.defineProperty(object, field, {
+    value,
+    writable: true,
+    enumerable: true,
+    configurable: true,
+  });
+}
+
 export function emptyToUndefined<T extends string>(s: T): T | undefined {
   return s === '' ? undefined : s;
 }
@@ -261,3 +307,8 @@ export function oxfordCommaList(l: string[]): string {
   if (l.length === 2) return `${l[0]} and ${l[1]}`;
   return `${l.slice(0, -1).join(', ')}, and ${l.slice(-1)[0]}`;
 }
+
+// The ordinal of the number, e.g. 2nd.
+export function ith(i: number) {
+  return `${i}${i == 1 ? 'st' : i == 2 ? 'nd' : i == 3 ? 'rd' : 'th'}`;
+}
@@ -0,0 +1,194 @@
+// Reshaping values to their type, e.g. before persisting objects sent by clients.
+
+import { Schema, Type, resolveType, tupleElementType } from './type-definitions';
+import {
+  CheckOptions,
+  NotPromise,
+  assertValueAgainstType,
+  computePropertiesOfType,
+  matchingUnionMember,
+} from './check-type';
+import { setField } from './language';
+
+// Throws a TypecheckingError like assertValueAgainstType if the value does not conform to
+// the type, and returns a deep copy with only the properties the type declares otherwise.
+export function sanitizeValue<T>(
+  value: NotPromise<T>,
+  type: Type,
+  schema: Schema,
+  options?: CheckOptions
+): unknown {
+  assertValueAgainstType(value, type, schema, options);
+  return sanitize(value, type, schema, options, []);
+}
+
+function sanitize(
+  value: unknown,
+  type: Type,
+  schema: Schema,
+  options: CheckOptions | undefined,
+  ignoredFields: string[]
+): unknown {
+  const resolved = resolveType(schema, type);
+  const recurse = (value: unknown, type: Type) =>
+    sanitize(value, type, schema, options, []);
+  // Copies the given fields of the value.
+  const pick = (
+    value: Record<string, unknown>,
+    fields: Array<[string, Type]>
+  ) => {
+    const result: Record<string, unknown> = {};
+    for (const [field, fieldType] of fields) {
+      if (ignoredFields.includes(field) || !(field in value)) continue;
+      setField(result, field, recurse(value[field], fieldType));
+    }
+    return result;
+  };
+  switch (resolved.kind) {
+    case 'interface': {
+      if (!isObject(value)) return value;
+      const result = pick(
+        value,
+        resolved.fields.map(field => [field.name, field.type])
+      );
+      // Fields of the interface itself take precedence over inherited ones.
+      return merge([
+        ...resolved.heritage.map(heritage =>
+          sanitize(value, heritage, schema, options, ignoredFields)
+        ),
+        result,
+      ]);
+    }
+    case 'mapped': {
+      if (!isObject(value)) return value;
+      const mapTo = resolved.mapTo;
+      let properties: string[];
+      try {
+        properties = computePropertiesOfType(schema, resolved);
+      } catch (e) {
+        // Mapped over e.g. string, so any field is allowed.
+        properties = Object.keys(value);
+      }
+      return pick(
+        value,
+        properties.map(property => [property, mapTo])
+      );
+    }
+    case 'index-signature': {
+      if (!isObject(value)) return value;
+      const valueType = resolved.valueType;
+      return pick(
+        value,
+        Object.keys(value).map(field => [field, valueType])
+      );
+    }
+    case 'array': {
+      if (!Array.isArray(value)) return value;
+      const elementType = resolved.elementType;
+      return value.map(element => recurse(element, elementType));
+    }
+    case 'tuple': {
+      if (!Array.isArray(value)) return value;
+      return value.map((element, i) => {
+        const elementType = tupleElementType(schema, resolved, value.length, i);
+        return elementType === undefined
+          ? copy(element)
+          : recurse(element, elementType);
+      });
+    }
+    case 'intersection':
+      if (!isObject(value)) return value;
+      return merge(
+        resolved.intersectionMembers.map(member =>
+          sanitize(value, member, schema, options, ignoredFields)
+        )
+      );
+    case 'omit':
+      return sanitize(
+        value,
+        resolved.base,
+        schema,
+        options,
+        ignoredFields.concat(resolved.omittedFields)
+      );
+    case 'pick': {
+      const pickedFields = resolved.pickedFields;
+      return sanitize(
+        value,
+        resolved.base,
+        schema,
+        options,
+        ignoredFields.concat(
+          computePropertiesOfType(schema, resolved.base).filter(
+            field => !pickedFields.includes(field)
+          )
+        )
+      );
+    }
+    case 'partial':
+    case 'required':
+    case 'non-nullable':
+      return sanitize(value, resolved.elementType, schema, options, ignoredFields);
+    case 'exclude':
+    case 'extract':
+    case 'union': {
+      const member = matchingUnionMember(
+        schema,
+        resolved,
+        value,
+        options,
+        ignoredFields
+      );
+      if (member !== undefined) {
+        return sanitize(value, member, schema, options, ignoredFields);
+      }
+      // Shouldn't happen for checked values, but never keep fields no member declares.
+      if (!isObject(value)) return copy(value);
+      const declared = computePropertiesOfType(schema, resolved);
+      const result: Record<string, unknown> = {};
+      for (const [field, fieldValue] of Object.entries(value)) {
+        if (ignoredFields.includes(field) || !declared.includes(field)) continue;
+        setField(result, field, copy(fieldValue));
+      }
+      return result;
+    }
+    case 'unknown':
+      return copy(value);
+    default:
+      return value;
+  }
+}
+
+// A deep copy of values of unknown type. Objects other than plain ones (e.g. dates) are
+// kept as they are.
+function copy(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(copy);
+  if (isPlainObject(value)) {
+    return Object.fromEntries(
+      Object.entries(value).map(([field, fieldValue]) => [field, copy(fieldValue)])
+    );
+  }
+  return value;
+}
+
+// Like Object.assign({}, ...parts), but copies fields named __proto__ as well.
+function merge(parts: unknown[]): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+  for (const part of parts) {
+    if (typeof part !== 'object' || part === null) continue;
+    for (const [field, fieldValue] of Object.entries(part)) {
+      setField(result, field, fieldValue);
+    }
+  }
+  return result;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (!isObject(value)) return false;
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+}
@@ -0,0 +1,146 @@
+// Branded primitive types with additional validation, see registerSpecialType.
+
+import { mapEnumWithDefault } from './language';
+import {
+  validateCountryCode,
+  validateDollarAmount,
+  validateEmail,
+  validateFiniteNumber,
+  validateInteger,
+  validateNonNegativeInteger,
+  validatePositiveInteger,
+  validateIsoDate,
+  validateIsoDatetime,
+  validateNumericString,
+  validatePhoneNumber,
+  validatePostalCode,
+  validateSocialSecurityNumber,
+  validateTrimmedString,
+  validateUsState,
+  validateUuid,
+} from './validators';
+import { validateTemporalPlainDate, validateTemporalPlainDateTime, validateTemporalPlainMonthDay, validateTemporalPlainTime, validateTemporalPlainYearMonth, validateTemporalZonedDateTime } from './temporal';
+
+export const SPECIAL_TYPES = [
+  'IsoDate',
+  'IsoDatetime',
+  'TrimmedString',
+  'Email',
+  'PhoneNumber',
+  'SocialSecurityNumber',
+  'PostalCode',
+  'Uuid',
+  'NumericString',
+  'DollarAmount',
+  'UsState',
+  'CountryCode',
+  'TemporalPlainDateTime',
+  'TemporalPlainDate',
+  'TemporalPlainTime',
+  'TemporalPlainYearMonth',
+  'TemporalPlainMonthDay',
+  'TemporalZonedDateTime',
+];
+
+// Special types that are branded numbers rather than strings.
+export const SPECIAL_NUMBER_TYPES = [
+  'Integer',
+  'PositiveInteger',
+  'NonNegativeInteger',
+  'FiniteNumber',
+];
+
+// Special string types that must not have leading or trailing whitespace.
+export const TRIMMED_SPECIAL_TYPES = [
+  'TrimmedString',
+  'Email',
+  'DollarAmount',
+  'NumericString',
+];
+
+// Special types whose values are redacted in error messages, like the values of fields
+// with a `// @check-type:sensitive` annotation.
+export const SENSITIVE_SPECIAL_TYPES = ['SocialSecurityNumber', 'Email', 'PhoneNumber'];
+
+// A validator returns an empty string if the value is valid, and a readable error
+// otherwise (like the validators in validators.ts).
+export type SpecialTypeValidator<T extends string | number | boolean = string> = (
+  value: T
+) => string;
+
+const registeredSpecialTypes = new Map<
+  string,
+  SpecialTypeValidator<string | number | boolean>
+>();
+
+// Registers a validator for a branded primitive type, e.g. for
+// `type OrderId = string & { _OrderId: unknown }` use
+// `registerSpecialType('OrderId', validateOrderId)`, and for
+// `type Cents = number & { _Cents: unknown }` use
+// `registerSpecialType<number>('Cents', validateCents)`. Brands without a registered
+// validator are checked like the plain primitive. Registering a name again replaces the
+// validator.
+export function registerSpecialType<
+  T extends string | number | boolean = string
+>(name: string, validator: SpecialTypeValidator<T>) {
+  if (SPECIAL_TYPES.includes(name) || SPECIAL_NUMBER_TYPES.includes(name)) {
+    throw new Error(
+      `Cannot register special type ${name}, as it is a built-in special type.`
+    );
+  }
+  // The value is only passed to validators after checking its Javascript type, which
+  // matches T as long as the brand is of the same primitive.
+  registeredSpecialTypes.set(
+    name,
+    validator as SpecialTypeValidator<string | number | boolean>
+  );
+}
+
+// Returns the validator registered for the given name, if any.
+export function registeredSpecialType(
+  name: string
+): SpecialTypeValidator<string | number | boolean> | undefined {
+  return registeredSpecialTypes.get(name);
+}
+
+// The validator of a special string type (built-in or registered).
+export function specialStringValidator(
+  specialName: string
+): SpecialTypeValidator | undefined {
+  return mapEnumWithDefault<string, SpecialTypeValidator | undefined>(specialName, {
+    IsoDate: validateIsoDate,
+    IsoDatetime: validateIsoDatetime,
+    TrimmedString: validateTrimmedString,
+    Email: validateEmail,
+    PhoneNumber: validatePhoneNumber,
+    SocialSecurityNumber: validateSocialSecurityNumber,
+    PostalCode: validatePostalCode,
+    Uuid: validateUuid,
+    NumericString: validateNumericString,
+    DollarAmount: validateDollarAmount,
+    UsState: validateUsState,
+    CountryCode: validateCountryCode,
+    TemporalPlainDateTime: validateTemporalPlainDateTime,
+    TemporalPlainDate: validateTemporalPlainDate,
+    TemporalPlainTime: validateTemporalPlainTime,
+    TemporalPlainYearMonth: validateTemporalPlainYearMonth,
+    TemporalPlainMonthDay: validateTemporalPlainMonthDay,
+    TemporalZonedDateTime: validateTemporalZonedDateTime,
+  }, registeredSpecialType(specialName));
+}
+
+// The validator of a special number type (built-in or registered).
+export function specialNumberValidator(
+  specialName: string
+): SpecialTypeValidator<number> | undefined {
+  return mapEnumWithDefault<string, SpecialTypeValidator<number> | undefined>(
+    specialName,
+    {
+      Integer: validateInteger,
+      PositiveInteger: validatePositiveInteger,
+      NonNegativeInteger: validateNonNegativeInteger,
+      FiniteNumber: validateFiniteNumber,
+    },
+    registeredSpecialType(specialName)
+  );
+}
@@ -4,16 +4,24 @@ export type Schema = {
   assertedTypes: string[];
 };
 
-export type Type = ReferenceType | ResolvedType;
+export type Type = ReferenceType | InstantiationType | ResolvedType;
 export type ResolvedType =
   | InterfaceType
   | UnionType
   | IntersectionType
   | ArrayType
+  | TupleType
   | PartialType
+  | RequiredType
+  | PickType
+  | ExcludeType
+  | ExtractType
+  | NonNullableType
   | BuiltInType
   | StringLiteralType
+  | TemplateLiteralType
   | NumberLiteralType
+  | EnumType
   | NullType
   | UnknownType
   | MappedType
@@ -21,7 +29,9 @@ export type ResolvedType =
   | KeyofType
   | BooleanLiteralType
   | IndexSignatureType
-  | UndefinedType;
+  | UndefinedType
+  | GenericType
+  | TypeParameterType;
 export interface BaseType {
   /** The name of this type (if it has one). */
   name?: string;
@@ -29,6 +39,26 @@ export interface BaseType {
   filename?: string;
   /** Should changes to this type be ignored across versions? */
   ignoreChanges?: boolean;
+  /** Should values of this type be checked in strict mode (i.e. reject excess fields)? */
+  strict?: boolean;
+  /** Additional constraints on values of this type, from JSDoc tags like `@maxLength 10`. */
+  constraints?: Constraints;
+}
+// Constraints are checked for values of the matching Javascript type only, e.g. minLength
+// on `string | null` only applies to strings.
+export interface Constraints {
+  // Strings.
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  // Numbers.
+  minimum?: number;
+  maximum?: number;
+  integer?: boolean;
+  // Arrays.
+  minItems?: number;
+  maxItems?: number;
+  uniqueItems?: boolean;
 }
 export interface IndexSignatureType extends BaseType {
   kind: 'index-signature';
@@ -39,6 +69,28 @@ export interface ReferenceType extends BaseType {
   kind: 'reference-type';
   referencedTypeName: string;
 }
+// A generic type declaration, e.g. `type Paginated<T> = { items: T[] }`. The body refers
+// to the type parameters using TypeParameterType, and can only be checked against once it
+// has been instantiated (see InstantiationType).
+export interface GenericType extends BaseType {
+  kind: 'generic';
+  typeParameters: TypeParameter[];
+  body: Type;
+}
+export interface TypeParameter {
+  name: string;
+  default?: Type;
+}
+export interface TypeParameterType extends BaseType {
+  kind: 'type-parameter';
+  parameterName: string;
+}
+// A use of a generic type with type arguments, e.g. `Paginated<Person>`.
+export interface InstantiationType extends BaseType {
+  kind: 'instantiation';
+  genericTypeName: string;
+  typeArguments: Type[];
+}
 export interface NullType extends BaseType {
   kind: 'null';
 }
@@ -56,6 +108,23 @@ export interface OmitType extends BaseType {
   base: Type;
   omittedFields: string[];
 }
+export interface PickType extends BaseType {
+  kind: 'pick';
+  base: Type;
+  pickedFields: string[];
+}
+// Exclude<T, U>: all union members of T that are not assignable to U.
+export interface ExcludeType extends BaseType {
+  kind: 'exclude';
+  base: Type;
+  excludedType: Type;
+}
+// Extract<T, U>: all union members of T that are assignable to U.
+export interface ExtractType extends BaseType {
+  kind: 'extract';
+  base: Type;
+  extractedType: Type;
+}
 export interface KeyofType extends BaseType {
   kind: 'keyof';
   base: Type;
@@ -71,18 +140,58 @@ export interface StringLiteralType extends BaseType {
   kind: 'string-literal';
   value: string;
 }
+// A template literal type, e.g. `user_${string}`. The head is the literal text before the
+// first placeholder, and each span consists of a placeholder and the literal text after it.
+export interface TemplateLiteralType extends BaseType {
+  kind: 'template-literal';
+  head: string;
+  spans: TemplateLiteralSpan[];
+}
+export interface TemplateLiteralSpan {
+  type: Type;
+  literal: string;
+}
 export interface NumberLiteralType extends BaseType {
   kind: 'number-literal';
   value: number;
 }
+// A TypeScript enum declaration (including const enums).
+export interface EnumType extends BaseType {
+  kind: 'enum';
+  members: EnumMember[];
+}
+export interface EnumMember {
+  name: string;
+  value: string | number;
+}
 export interface ArrayType extends BaseType {
   kind: 'array';
   elementType: Type;
 }
+export interface TupleType extends BaseType {
+  kind: 'tuple';
+  elements: TupleElement[];
+}
+export interface TupleElement {
+  // The name of named tuple members, e.g. `x` in `[x: number, y: number]`.
+  name?: string;
+  // For rest elements, this is the type of the spread, e.g. `string[]` in `[number, ...string[]]`.
+  type: Type;
+  optional: boolean;
+  rest: boolean;
+}
 export interface PartialType extends BaseType {
   kind: 'partial';
   elementType: Type;
 }
+export interface RequiredType extends BaseType {
+  kind: 'required';
+  elementType: Type;
+}
+export interface NonNullableType extends BaseType {
+  kind: 'non-nullable';
+  elementType: Type;
+}
 export interface BuiltInType extends BaseType {
   kind: 'number' | 'boolean' | 'string';
   specialName?: string;
@@ -90,14 +199,20 @@ export interface BuiltInType extends BaseType {
 export interface InterfaceType extends BaseType {
   kind: 'interface';
   fields: Field[];
-  heritage: ReferenceType[];
+  heritage: Array<ReferenceType | InstantiationType>;
 }
 export interface UnionType extends BaseType {
   kind: 'union';
   unionMembers: Type[];
-  // If all members have a kind field (our convention for unions that aren't enums),
-  // then list the kinds.
-  kinds?: string[];
+  // Set if all members are interfaces with a required literal field (like kind, type or
+  // __typename) that has a different value in each member.
+  discriminant?: Discriminant;
+}
+export interface Discriminant {
+  field: string;
+  // The index in unionMembers of the member for each value of the field, where the values
+  // are JSON (e.g. '"circle"' or 'true'), see discriminantKey.
+  members: { [value: string]: number };
 }
 export interface IntersectionType extends BaseType {
   kind: 'intersection';
@@ -108,19 +223,54 @@ export interface Field {
   name: string;
   optional: boolean;
   type: Type;
+  // The value of the field if it is missing, from a `@default` JSDoc tag (only for
+  // optional fields).
+  default?: unknown;
+  // Set if the value of the field is redacted in error messages, from a
+  // `// @check-type:sensitive` annotation.
+  sensitive?: boolean;
 }
 
 // Resolves a type: a reference type will be mapped to it's definition (potentially
-// following multiple resolve steps), and all other types are returned as is.
+// following multiple resolve steps), an instantiation of a generic type will be mapped
+// to the generic's body with all type arguments substituted, and all other types are
+// returned as is.
 export function resolveType(schema: Schema, type: Type): ResolvedType {
+  if (type.kind == 'instantiation') {
+    return {
+      ...resolveType(schema, instantiateGenericType(schema, type)),
+      name: typeToString(type),
+    };
+  }
   if (type.kind != 'reference-type') {
     return type;
   }
   if (type.referencedTypeName in schema.types) {
     const candidate = schema.types[type.referencedTypeName];
-    if (candidate.kind == 'reference-type') {
+    if (
+      candidate.kind == 'reference-type' ||
+      candidate.kind == 'instantiation'
+    ) {
       return resolveType(schema, candidate);
     }
+    // A generic type can be used without type arguments if all its type parameters have
+    // defaults, e.g. Box for Box<T = string>.
+    if (
+      candidate.kind == 'generic' &&
+      candidate.typeParameters.every(parameter => parameter.default !== undefined)
+    ) {
+      return {
+        ...resolveType(
+          schema,
+          instantiateGenericType(schema, {
+            kind: 'instantiation',
+            genericTypeName: type.referencedTypeName,
+            typeArguments: [],
+          })
+        ),
+        name: type.referencedTypeName,
+      };
+    }
     return { ...candidate, name: type.referencedTypeName };
   }
   throw new Error(
@@ -128,6 +278,197 @@ export function resolveType(schema: Schema, type: Type): ResolvedType {
   );
 }
 
+// The type of the element at the given index of a tuple value with the given length, or
+// undefined if the tuple has no such element. Elements after a rest element are aligned
+// with the end of the value.
+export function tupleElementType(
+  schema: Schema,
+  type: TupleType,
+  length: number,
+  index: number
+): Type | undefined {
+  const restIndex = type.elements.findIndex(element => element.rest);
+  if (restIndex === -1 || index < restIndex) return type.elements[index]?.type;
+  const trailing = type.elements.length - restIndex - 1;
+  if (index >= length - trailing) {
+    return type.elements[type.elements.length - (length - index)]?.type;
+  }
+  const restType = resolveType(schema, type.elements[restIndex].type);
+  return restType.kind === 'array' ? restType.elementType : undefined;
+}
+
+// The key of a value of a discriminant field in Discriminant.members, or undefined if the
+// value cannot be a literal.
+export function discriminantKey(value: unknown): string | undefined {
+  return typeof value === 'string' ||
+    typeof value === 'number' ||
+    typeof value === 'boolean'
+    ? JSON.stringify(value)
+    : undefined;
+}
+
+// The values of the discriminant field, in the order of the union members.
+export function discriminantValues(
+  discriminant: Discriminant
+): Array<string | number | boolean> {
+  return Object.entries(discriminant.members)
+    .sort((a, b) => a[1] - b[1])
+    .map(([key]) => JSON.parse(key) as string | number | boolean);
+}
+
+// Returns the body of the generic type that is instantiated, with the type arguments
+// substituted for the type parameters.
+export function instantiateGenericType(
+  schema: Schema,
+  type: InstantiationType
+): Type {
+  if (!(type.genericTypeName in schema.types)) {
+    throw new Error(
+      `Type '${type.genericTypeName}' was used, but not defined.`
+    );
+  }
+  const generic = schema.types[type.genericTypeName];
+  if (generic.kind != 'generic') {
+    throw new Error(
+      `Type '${type.genericTypeName}' is not generic, but was used with type arguments in ${typeToString(
+        type
+      )}.`
+    );
+  }
+  if (type.typeArguments.length > generic.typeParameters.length) {
+    throw new Error(
+      `Type '${type.genericTypeName}' expects at most ${
+        generic.typeParameters.length
+      } type arguments, but got ${type.typeArguments.length} in ${typeToString(
+        type
+      )}.`
+    );
+  }
+  const bindings: { [name: string]: Type } = {};
+  generic.typeParameters.forEach((parameter, i) => {
+    const argument =
+      i < type.typeArguments.length
+        ? type.typeArguments[i]
+        : parameter.default !== undefined
+        ? substituteTypeParameters(parameter.default, bindings)
+        : undefined;
+    if (argument === undefined) {
+      throw new Error(
+        `Missing type argument for type parameter '${
+          parameter.name
+        }' in ${typeToString(type)}.`
+      );
+    }
+    bindings[parameter.name] = argument;
+  });
+  return substituteTypeParameters(generic.body, bindings);
+}
+
+// Replaces all type parameters that have a binding with the bound type.
+export function substituteTypeParameters(
+  type: Type,
+  bindings: { [name: string]: Type }
+): Type {
+  const substitute = (t: Type) => substituteTypeParameters(t, bindings);
+  switch (type.kind) {
+    case 'type-parameter':
+      return type.parameterName in bindings
+        ? bindings[type.parameterName]
+        : type;
+    case 'instantiation':
+      return { ...type, typeArguments: type.typeArguments.map(substitute) };
+    case 'generic': {
+      // Type parameters of the nested generic shadow the outer ones.
+      const innerBindings = { ...bindings };
+      for (const parameter of type.typeParameters) {
+        delete innerBindings[parameter.name];
+      }
+      return {
+        ...type,
+        body: substituteTypeParameters(type.body, innerBindings),
+      };
+    }
+    case 'array':
+    case 'partial':
+    case 'required':
+    case 'non-nullable':
+      return { ...type, elementType: substitute(type.elementType) };
+    case 'tuple':
+      return {
+        ...type,
+        elements: type.elements.map(element => ({
+          ...element,
+          type: substitute(element.type),
+        })),
+      };
+    case 'mapped':
+      return {
+        ...type,
+        mapFrom: substitute(type.mapFrom),
+        mapTo: substitute(type.mapTo),
+      };
+    case 'omit':
+    case 'pick':
+    case 'keyof':
+      return { ...type, base: substitute(type.base) };
+    case 'exclude':
+      return {
+        ...type,
+        base: substitute(type.base),
+        excludedType: substitute(type.excludedType),
+      };
+    case 'extract':
+      return {
+        ...type,
+        base: substitute(type.base),
+        extractedType: substitute(type.extractedType),
+      };
+    case 'index-signature':
+      return {
+        ...type,
+        keyType: substitute(type.keyType),
+        valueType: substitute(type.valueType),
+      };
+    case 'template-literal':
+      return {
+        ...type,
+        spans: type.spans.map(span => ({ ...span, type: substitute(span.type) })),
+      };
+    case 'union':
+      return { ...type, unionMembers: type.unionMembers.map(substitute) };
+    case 'intersection':
+      return {
+        ...type,
+        intersectionMembers: type.intersectionMembers.map(substitute),
+      };
+    case 'interface':
+      return {
+        ...type,
+        fields: type.fields.map(field => ({
+          ...field,
+          type: substitute(field.type),
+        })),
+        heritage: type.heritage.map(h =>
+          h.kind == 'instantiation'
+            ? { ...h, typeArguments: h.typeArguments.map(substitute) }
+            : h
+        ),
+      };
+    case 'reference-type':
+    case 'enum':
+    case 'string':
+    case 'number':
+    case 'boolean':
+    case 'null':
+    case 'unknown':
+    case 'undefined':
+    case 'string-literal':
+    case 'number-literal':
+    case 'boolean-literal':
+      return type;
+  }
+}
+
 // Returns the enum values if this Union is an enum (i.e. a set of string literal types),
 // or undefined otherwise.
 export function isEnum(t: Type): string[] | undefined {
@@ -144,6 +485,10 @@ export function isEnum(t: Type): string[] | undefined {
   return result;
 }
 
+export function enumValueToString(value: string | number): string {
+  return typeof value === 'string' ? `'${value}'` : value.toString();
+}
+
 export function indent(s: string, indent = '  ') {
   return s.replace(/\n/g, `\n${indent}`);
 }
@@ -155,10 +500,10 @@ export function typeToString(
   if (type.name !== undefined) return type.name;
   switch (type.kind) {
     case 'string':
-      if (type.specialName !== undefined) return type.specialName;
-      return type.kind;
     case 'number':
     case 'boolean':
+      if (type.specialName !== undefined) return type.specialName;
+      return type.kind;
     case 'null':
     case 'unknown':
     case 'undefined':
@@ -167,8 +512,26 @@ export function typeToString(
       return type.value ? 'true' : 'false';
     case 'number-literal':
       return type.value.toString();
+    case 'enum':
+      return `enum { ${type.members
+        .map(member => `${member.name} = ${enumValueToString(member.value)}`)
+        .join(', ')} }`;
     case 'reference-type':
       return type.referencedTypeName;
+    case 'type-parameter':
+      return type.parameterName;
+    case 'instantiation':
+      return `${type.genericTypeName}<${type.typeArguments
+        .map(x => typeToString(x, options))
+        .join(', ')}>`;
+    case 'generic':
+      return `<${type.typeParameters
+        .map(parameter =>
+          parameter.default !== undefined
+            ? `${parameter.name} = ${typeToString(parameter.default, options)}`
+            : parameter.name
+        )
+        .join(', ')}>${typeToString(type.body, options)}`;
     case 'index-signature':
       return `{ [key: ${typeToString(type.keyType, options)}]: ${typeToString(
         type.valueType,
@@ -200,16 +563,49 @@ export function typeToString(
         .join(' & ');
     case 'array':
       return `Array<${typeToString(type.elementType, options)}>`;
+    case 'tuple':
+      return `[${type.elements
+        .map(element => {
+          const elementType = typeToString(element.type, options);
+          const rest = element.rest ? '...' : '';
+          const optional = element.optional ? '?' : '';
+          if (element.name !== undefined)
+            return `${rest}${element.name}${optional}: ${elementType}`;
+          return `${rest}${elementType}${optional}`;
+        })
+        .join(', ')}]`;
     case 'partial':
       return `Partial<${typeToString(type.elementType, options)}>`;
+    case 'required':
+      return `Required<${typeToString(type.elementType, options)}>`;
+    case 'non-nullable':
+      return `NonNullable<${typeToString(type.elementType, options)}>`;
+    case 'exclude':
+      return `Exclude<${typeToString(type.base, options)}, ${typeToString(
+        type.excludedType,
+        options
+      )}>`;
+    case 'extract':
+      return `Extract<${typeToString(type.base, options)}, ${typeToString(
+        type.extractedType,
+        options
+      )}>`;
     case 'string-literal':
       return `'${type.value}'`;
+    case 'template-literal':
+      return `\`${type.head}${type.spans
+        .map(span => `\${${typeToString(span.type, options)}}${span.literal}`)
+        .join('')}\``;
     case 'keyof':
       return `keyof ${typeToString(type.base, options)}`;
     case 'omit':
       return `Omit<${typeToString(type.base, options)}, ${type.omittedFields
         .map(x => `'${x}'`)
         .join(' | ')}>`;
+    case 'pick':
+      return `Pick<${typeToString(type.base, options)}, ${type.pickedFields
+        .map(x => `'${x}'`)
+        .join(' | ')}>`;
     case 'mapped':
       return `{ [Symbol in ${typeToString(type.mapFrom)}]: ${typeToString(type.mapTo)}}`;
   }
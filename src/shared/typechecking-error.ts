@@ -0,0 +1,128 @@
+// The error thrown for values that don't conform to their type.
+
+import { ith } from './language';
+
+export type CheckErrorCode =
+  | 'wrong-type'
+  | 'missing-field'
+  | 'excess-field'
+  | 'literal-mismatch'
+  | 'enum-mismatch'
+  | 'template-literal-mismatch'
+  | 'union-no-match'
+  | 'special-type-invalid'
+  | 'constraint-violation'
+  | 'tuple-length'
+  | 'limit-exceeded'
+  | 'cyclic-value';
+
+export interface CheckError {
+  // The part of the value that has the error, e.g. value['items'][2].
+  path: string;
+  // The same as an RFC 6901 JSON Pointer, e.g. /items/2.
+  pointer: string;
+  code: CheckErrorCode;
+  // The name of the type the value was checked against.
+  expected: string;
+  // The Javascript type of the value, where null and arrays are reported as 'null' and
+  // 'array'.
+  actual: string;
+  message: string;
+}
+
+export class TypecheckingError extends Error {
+  // The structured version of the error(s) described by the message.
+  errors: CheckError[];
+
+  constructor(m: string, errors: CheckError[] = []) {
+    super(m);
+    this.errors = errors;
+    // https://github.com/Microsoft/TypeScript/wiki/Breaking-Changes#generated-constructor-code-substitutes-the-return-value-of-super-calls-as-this
+    Object.setPrototypeOf(this, TypecheckingError.prototype);
+  }
+}
+
+let allValuesRedacted = false;
+
+// Leaves all values out of error messages (e.g. because they end up in logs), instead of
+// only those of sensitive fields and types.
+export function setRedactAllValues(redact: boolean) {
+  allValuesRedacted = redact;
+}
+
+export function redactsAllValues(): boolean {
+  return allValuesRedacted;
+}
+
+// The result of the generated parseX functions, which don't throw for invalid values.
+export type ParseResult<T> =
+  | { ok: true; value: T }
+  | { ok: false; error: TypecheckingError };
+
+// Calls the given assert function and returns its result (or the TypecheckingError it
+// threw) as a ParseResult.
+export function parseResult<T>(assert: () => T): ParseResult<T> {
+  try {
+    return { ok: true, value: assert() };
+  } catch (error) {
+    if (!(error instanceof TypecheckingError)) throw error;
+    return { ok: false, error };
+  }
+}
+
+// How far checking a value against one member of a union got before it failed.
+export interface UnionMemberAttempt {
+  error: TypecheckingError;
+  // The number of literal fields of the member (like kind: 'circle') that the value
+  // matches, minus the number it contradicts.
+  discriminants: number;
+  // The number of (other) fields of the value that conform to their type in the member.
+  matchedFields: number;
+}
+
+// The message for a value that matches none of the union members. The errors of the
+// closest member are reported in full and the others in one line each, unless no member
+// is closer than the others or fullUnionErrors is set.
+export function unionMismatchMessage(
+  attempts: UnionMemberAttempt[],
+  valueString: string,
+  fullUnionErrors: boolean
+): string {
+  // How deep into the value checking got.
+  const depth = (attempt: UnionMemberAttempt) =>
+    attempt.error.message.split('\nWhile checking ').length;
+  const closer = (a: UnionMemberAttempt, b: UnionMemberAttempt) =>
+    b.discriminants - a.discriminants ||
+    b.matchedFields - a.matchedFields ||
+    depth(b) - depth(a);
+  const ranked = attempts
+    .map((attempt, i) => ({ attempt, i }))
+    .sort((a, b) => closer(a.attempt, b.attempt) || a.i - b.i);
+  if (
+    fullUnionErrors ||
+    ranked.length < 2 ||
+    closer(ranked[0].attempt, ranked[1].attempt) == 0
+  ) {
+    return `No union member matches:
+${attempts
+  .map(
+    (attempt, i) => `- tried ${ith(i + 1)} union member, but got:
+  ${attempt.error.message.replace(/\n/g, '\n  ')}`
+  )
+  .join('\n')}`;
+  }
+  const [closest, ...others] = ranked;
+  return `No union member matches, the closest is the ${ith(
+    closest.i + 1
+  )} union member:
+  ${closest.attempt.error.message.replace(/\n/g, '\n  ')}
+Other union members:
+${others
+  .map(({ attempt, i }) => {
+    const path = attempt.error.errors[0]?.path;
+    return `- ${ith(i + 1)} union member: ${attempt.error.message.split('\n')[0]}${
+      path !== undefined && path != valueString ? ` (at ${path})` : ''
+    }`;
+  })
+  .join('\n')}`;
+}
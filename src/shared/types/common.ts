@@ -54,6 +54,18 @@ export type TemporalPlainMonthDay = string & { _TemporalPlainMonthDay: unknown }
 // A Temporal.ZonedDateTime object's string representation
 export type TemporalZonedDateTime = string & { _TemporalZonedDateTime: unknown };
 
+// A finite number, i.e. not NaN or +/-Infinity
+export type FiniteNumber = number & { _FiniteNumber: unknown };
+
+// A safe integer, e.g. -3 or 42
+export type Integer = number & { _Integer: unknown };
+
+// An integer > 0
+export type PositiveInteger = number & { _PositiveInteger: unknown };
+
+// An integer >= 0
+export type NonNegativeInteger = number & { _NonNegativeInteger: unknown };
+
 export function formatEmail(email: string): TrimmedString {
   return email.trim().toLocaleLowerCase() as TrimmedString;
 }
@@ -341,3 +341,27 @@ export function validateUsState(value: string): string {
   if (US_STATES.some(state => state.code === value)) return '';
   return `Expected a valid US state, but got '${value}'.`;
 }
+
+// --- Numbers
+
+export function validateFiniteNumber(value: number): string {
+  if (!Number.isFinite(value)) return 'Expected a finite number.';
+  return '';
+}
+
+export function validateInteger(value: number): string {
+  if (!Number.isSafeInteger(value)) return 'Expected a (safe) integer.';
+  return '';
+}
+
+export function validatePositiveInteger(value: number): string {
+  if (!Number.isSafeInteger(value) || value <= 0)
+    return 'Expected a positive integer.';
+  return '';
+}
+
+export function validateNonNegativeInteger(value: number): string {
+  if (!Number.isSafeInteger(value) || value < 0)
+    return 'Expected a non-negative integer.';
+  return '';
+}
@@ -1,6 +1,12 @@
 // Main file to generate the type schema and type-checking functions.
 
-import { parseTypes, tsProgramFromFiles, watchTsFiles } from './parse-types';
+import {
+  ParseDiagnostic,
+  parseTypes,
+  SchemaParseErrors,
+  tsProgramFromFiles,
+  watchTsFiles,
+} from './parse-types';
 import {
   generateSchemaFile,
   generateCheckingFunctionsFile,
@@ -8,7 +14,7 @@ import {
 } from './generate-schema';
 
 import { parse } from 'ts-command-line-args';
-import { Schema } from '../../shared/type-definitions';
+import { Schema, Type } from '../../shared/type-definitions';
 import fs from 'fs';
 import path from 'path';
 import { sys } from 'typescript';
@@ -59,6 +65,10 @@ const args = parse<Arguments>(
 type IndividualConfig = {
   root: string;
   noGen?: boolean;
+  // Path to the tsconfig.json used to resolve types in root.
+  tsconfig?: string;
+  // Generate assert functions that check values without the schema interpreter.
+  standalone?: boolean;
 };
 
 const CONFIG_FORMAT = `Format is:
@@ -67,6 +77,8 @@ type Config = IndividualConfig | IndividualConfig[]
 type IndividualConfig = {
   root: string;
   noGen?: boolean;
+  tsconfig?: string;
+  standalone?: boolean;
 };
     `;
 
@@ -99,9 +111,22 @@ function parseIndividualConfig(config: object): IndividualConfig {
   if (hasProperty(config, 'root') && typeof config.root === 'string') {
     if (hasProperty(config, 'doNotGenerateSchema')) {
     }
+    let tsconfig: string | undefined = undefined;
+    if (hasProperty(config, 'tsconfig')) {
+      if (typeof config.tsconfig !== 'string') {
+        return error(
+          `Invalid config; tsconfig must be a path for '${objectToJson(
+            config
+          )}'. ${CONFIG_FORMAT}`
+        );
+      }
+      tsconfig = path.resolve(config.tsconfig);
+    }
     return {
       root: path.resolve(config.root),
       noGen: hasProperty(config, 'noGen') && config.noGen === true,
+      tsconfig,
+      standalone: hasProperty(config, 'standalone') && config.standalone === true,
     };
   }
   return error(
@@ -111,6 +136,31 @@ function parseIndividualConfig(config: object): IndividualConfig {
   );
 }
 
+// Merges the schemas parsed from several programs. A program also contains the files it
+// imports, so the same type can be part of several schemas, in which case we prefer the
+// one from the program that owns the file.
+function mergeSchemas(
+  schemas: Schema[],
+  isOwner: (schemaIndex: number, type: Type) => boolean
+): Schema {
+  if (schemas.length == 1) return schemas[0];
+  const result: Schema = { types: {}, assertedTypes: [] };
+  schemas.forEach((schema, i) => {
+    for (const [name, type] of Object.entries(schema.types)) {
+      if (!(name in result.types) || isOwner(i, type)) {
+        result.types[name] = type;
+      }
+    }
+    for (const assertedType of schema.assertedTypes) {
+      if (!result.assertedTypes.includes(assertedType)) {
+        result.assertedTypes.push(assertedType);
+      }
+    }
+  });
+  result.assertedTypes.sort();
+  return result;
+}
+
 async function main() {
   util.inspect.defaultOptions.depth = Infinity;
   util.inspect.defaultOptions.maxArrayLength = Infinity;
@@ -140,10 +190,49 @@ async function main() {
 
   const root = configs.map(c => c.root).sort((a, b) => a.length - b.length)[0];
 
+  // Configs that use the same tsconfig share a program, and each file belongs to the
+  // program of the most specific config that contains it.
+  const tsconfigs = [...new Set(configs.map(c => c.tsconfig))];
+  const multiplePrograms = tsconfigs.length > 1;
+  const ownerOf = (file: string) =>
+    configs
+      .filter(c => file.startsWith(c.root))
+      .sort((a, b) => b.root.length - a.root.length)[0];
   const tsFilesForKind = () => allTsFilesFor(root);
+  const tsFilesForTsconfig = (tsconfig: string | undefined) =>
+    multiplePrograms
+      ? tsFilesForKind().filter(file => ownerOf(file)?.tsconfig === tsconfig)
+      : tsFilesForKind();
+  const isOwner = (tsconfigIndex: number, type: Type) =>
+    ownerOf(`${root}/${assertNonNull(type.filename)}`)?.tsconfig ===
+    tsconfigs[tsconfigIndex];
+  const parseAllTypes = () => {
+    // Report the errors of all programs together (files that are part of several programs
+    // would otherwise be reported several times).
+    const diagnostics = new Map<string, ParseDiagnostic>();
+    const schemas: Schema[] = [];
+    for (const tsconfig of tsconfigs) {
+      try {
+        schemas.push(
+          parseTypes(
+            root,
+            tsProgramFromFiles(tsFilesForTsconfig(tsconfig), tsconfig)
+          )
+        );
+      } catch (e) {
+        if (!(e instanceof SchemaParseErrors)) throw e;
+        for (const d of e.diagnostics) {
+          diagnostics.set(`${d.file}:${d.line}:${d.column}:${d.message}`, d);
+        }
+      }
+    }
+    if (diagnostics.size > 0) {
+      throw new SchemaParseErrors([...diagnostics.values()]);
+    }
+    return mergeSchemas(schemas, isOwner);
+  };
   const typesConfigForKind: (schema?: Schema) => TypesConfig[] = schema => {
-    const resolvedSchema =
-      schema ?? parseTypes(root, tsProgramFromFiles(tsFilesForKind()));
+    const resolvedSchema = schema ?? parseAllTypes();
     const allTypes = Object.entries(resolvedSchema.types).sort((a, b) =>
       a[0].localeCompare(b[0])
     );
@@ -157,6 +246,7 @@ async function main() {
         noGen: config.noGen === true,
         root,
         noFunctions: false,
+        standalone: config.standalone === true,
         schema: {
           types: Object.fromEntries(
             allTypes.filter(([_, type]) => {
@@ -199,7 +289,13 @@ async function main() {
     console.log(
       `Processing ${files.length} file${files.length > 1 ? 's' : ''}...`
     );
-    const configs = typesConfigForKind();
+    let configs: TypesConfig[];
+    try {
+      configs = typesConfigForKind();
+    } catch (e) {
+      if (!(e instanceof SchemaParseErrors)) throw e;
+      return error(e.message);
+    }
     for (const config of configs) {
       if (config.noGen) continue;
       generateSchemaFile(config, noChanges);
@@ -212,20 +308,38 @@ async function main() {
       } for changes...`
     );
     let first = true;
-    watchTsFiles(
-      () => tsFilesForKind(),
-      program => {
-        console.log(first ? `Initial processing...` : `Detected changes...`);
-        first = false;
-        const types = parseTypes(root, program);
-        const configs = typesConfigForKind(types);
-        for (const config of configs) {
-          if (config.noGen) continue;
-          generateSchemaFile(config, noChanges);
-          generateCheckingFunctionsFile(config);
-        }
-      }
-    );
+    const schemas = new Map<string | undefined, Schema>();
+    for (const tsconfig of tsconfigs) {
+      watchTsFiles(
+        () => tsFilesForTsconfig(tsconfig),
+        program => {
+          try {
+            schemas.set(tsconfig, parseTypes(root, program));
+          } catch (e) {
+            if (!(e instanceof SchemaParseErrors)) throw e;
+            // Keep watching, the errors are likely fixed in one of the next changes.
+            console.warn(e.message);
+            return;
+          }
+          // Wait until every program has been processed once.
+          if (schemas.size < tsconfigs.length) return;
+          console.log(first ? `Initial processing...` : `Detected changes...`);
+          first = false;
+          const configs = typesConfigForKind(
+            mergeSchemas(
+              tsconfigs.map(t => assertNonNull(schemas.get(t))),
+              isOwner
+            )
+          );
+          for (const config of configs) {
+            if (config.noGen) continue;
+            generateSchemaFile(config, noChanges);
+            generateCheckingFunctionsFile(config);
+          }
+        },
+        tsconfig
+      );
+    }
   }
 
   return;
@@ -2,9 +2,14 @@
 
 import * as fs from 'fs';
 
-import { Schema, Type } from '../../shared/type-definitions';
+import { Schema, Type, resolveType } from '../../shared/type-definitions';
 import { assertNonNull } from '../../shared/language';
+import { SPECIAL_NUMBER_TYPES, SPECIAL_TYPES } from '../../shared/special-types';
 import { visitAllTypes } from './parse-types';
+import {
+  specialTypeName,
+  standaloneCheckingFunctions,
+} from './generate-standalone';
 import path from 'path';
 
 export function allTypeNames(schema: Schema): string[] {
@@ -13,6 +18,63 @@ export function allTypeNames(schema: Schema): string[] {
 export function allTypes(schema: Schema): Type[] {
   return Object.values(schema.types);
 }
+// All types that values can be checked against directly, i.e. excluding generic types,
+// which first need to be instantiated.
+export function allCheckableTypes(schema: Schema): Type[] {
+  return allTypes(schema).filter(type => type.kind !== 'generic');
+}
+
+// The fields of values of the type that get a default value if they are missing.
+function fieldsWithDefaults(schema: Schema, type: Type): string[] {
+  const resolved = resolveType(schema, type);
+  switch (resolved.kind) {
+    case 'interface':
+      return resolved.fields
+        .filter(field => 'default' in field)
+        .map(field => field.name)
+        .concat(
+          resolved.heritage.flatMap(heritage =>
+            fieldsWithDefaults(schema, heritage)
+          )
+        );
+    case 'intersection':
+      return resolved.intersectionMembers.flatMap(member =>
+        fieldsWithDefaults(schema, member)
+      );
+    default:
+      return [];
+  }
+}
+
+// Whether any field of the type (or of the types it refers to) has a default value.
+function hasDefaults(
+  schema: Schema,
+  type: Type,
+  visited: Set<string> = new Set()
+): boolean {
+  let result = false;
+  const visitReferenced = (name: string) => {
+    if (visited.has(name) || !(name in schema.types)) return;
+    visited.add(name);
+    result = hasDefaults(schema, schema.types[name], visited);
+  };
+  visitAllTypes(
+    schema,
+    type => {
+      if (result) return false;
+      if (type.kind == 'interface') {
+        result = type.fields.some(field => 'default' in field);
+      } else if (type.kind == 'reference-type') {
+        visitReferenced(type.referencedTypeName);
+      } else if (type.kind == 'instantiation') {
+        visitReferenced(type.genericTypeName);
+      }
+      return !result;
+    },
+    type
+  );
+  return result;
+}
 
 export function generateSchemaFile(config: TypesConfig, noChanges: boolean) {
   if (allTypeNames(config.schema).length === 0) {
@@ -43,6 +105,27 @@ export function generateSchemaFile(config: TypesConfig, noChanges: boolean) {
   console.log(`  Generated schema for ${config.name}.`);
 }
 
+// The special types used in the schema that get their own assert, is and parse functions,
+// with their primitive type. Built-in special types are imported from types/common, and
+// other brands (e.g. registered with registerSpecialType) are written out. Brands that
+// are part of the schema get their functions like any other type.
+export function usedSpecialTypes(schema: Schema): Map<string, string> {
+  const result = new Map<string, string>();
+  const schemaTypeNames = allTypeNames(schema);
+  visitAllTypes(schema, type => {
+    if (
+      (type.kind === 'string' ||
+        type.kind === 'number' ||
+        type.kind === 'boolean') &&
+      type.specialName !== undefined &&
+      !schemaTypeNames.includes(type.specialName)
+    ) {
+      result.set(type.specialName, type.kind);
+    }
+  });
+  return result;
+}
+
 export function generateCheckingFunctionsFile(config: TypesConfig) {
   if (allTypeNames(config.schema).length === 0) {
     return;
@@ -57,24 +140,39 @@ export function generateCheckingFunctionsFile(config: TypesConfig) {
     if (!(filename in filenameToType)) filenameToType[filename] = [];
     filenameToType[filename].push(assertNonNull(type.name));
   }
-  const usedSpecialTypes = new Set<string>();
-  visitAllTypes(config.schema, type => {
-    if (type.kind === 'string' && type.specialName !== undefined) {
-      usedSpecialTypes.add(type.specialName);
-    }
-  });
-  const functions = `// IMPORTANT: This file is automatically generated by ${__filename}, do not manually change it.
+  const specialTypes = usedSpecialTypes(config.schema);
+  const header = `// IMPORTANT: This file is automatically generated by ${__filename}, do not manually change it.
 
 /* eslint-disable */
-import { Type, Schema } from '${config.pathToSharedFromSchema(
+import { ${[...specialTypes.keys()]
+    .filter(name => [...SPECIAL_TYPES, ...SPECIAL_NUMBER_TYPES].includes(name))
+    .join(', ')} } from '${config.pathToSharedFromSchema('types/common')}';
+${Object.entries(filenameToType)
+  .map(entry => `import { ${entry[1].join(', ')} } from './${entry[0]}';`)
+  .join('\n')}
+`;
+  const functions = config.standalone
+    ? `${header}${standaloneCheckingFunctions(
+        config.schema,
+        specialTypes,
+        config.pathToSharedFromSchema
+      )}`
+    : `${header}import { Type, Schema } from '${config.pathToSharedFromSchema(
     'type-definitions'
   )}';
-import { ${[...usedSpecialTypes].join(
-    ', '
-  )} } from '${config.pathToSharedFromSchema('types/common')}';
-import { NotPromise, checkValueAgainstType, computePropertiesOfType } from '${config.pathToSharedFromSchema(
+import { CheckOptions, NotPromise, assertValueAgainstType, compileType, computePropertiesOfType } from '${config.pathToSharedFromSchema(
     'check-type'
   )}';
+import { ParseResult, parseResult } from '${config.pathToSharedFromSchema(
+    'typechecking-error'
+  )}';
+import { coerceValueAgainstType } from '${config.pathToSharedFromSchema(
+    'coerce'
+  )}';
+import { WithDefaults, assertValueWithDefaults } from '${config.pathToSharedFromSchema(
+    'defaults'
+  )}';
+import { sanitizeValue } from '${config.pathToSharedFromSchema('sanitize')}';
 import mainSchema from './schema.json';
 ${config.pathOfAdditionalSchemas
   .map(
@@ -86,37 +184,62 @@ ${config.pathOfAdditionalSchemas
   )
   .join('\n')}
 
-${Object.entries(filenameToType)
-  .map(entry => `import { ${entry[1].join(', ')} } from './${entry[0]}';`)
-  .join('\n')}
-
 const schema = { types: { ...mainSchema.types, ${config.pathOfAdditionalSchemas
     .map((_, i) => `...additionalSchema${i}.types`)
     .join(', ')} } }
 
-export function propertiesOfType(typeName: ${allTypeNames(config.schema)
-    .map(name => `'${name}'`)
+export function propertiesOfType(typeName: ${allCheckableTypes(config.schema)
+    .map(type => `'${type.name}'`)
     .join(' | ')}): string[] {
   return computePropertiesOfType(schema as unknown as Schema, (schema.types as {[key: string]: Type})[typeName]);
 }
 
-${[...usedSpecialTypes]
-  .map(
-    type => `export function assert${type}<T>(value: NotPromise<T>): ${type} {
-  const error = checkValueAgainstType(value, { kind: 'string' } as unknown as Type, schema as unknown as Schema);
-  if (error != '') throw new Error(error);
-  return value as unknown as ${type};
-}`
-  )
+${[...specialTypes]
+  .map(([type, kind]) => {
+    const typeName = specialTypeName(type, kind);
+    return `const SPECIAL_TYPE_${type} = { kind: '${kind}', specialName: '${type}' } as unknown as Type;
+
+export function assert${type}<T>(value: NotPromise<T>): ${typeName} {
+  assertValueAgainstType(value, SPECIAL_TYPE_${type}, schema as unknown as Schema);
+  return value as unknown as ${typeName};
+}
+
+export function is${type}(value: unknown): value is ${typeName} {
+  return compileType(SPECIAL_TYPE_${type}, schema as unknown as Schema).isValid(value);
+}
+
+export function parse${type}(value: unknown): ParseResult<${typeName}> {
+  return parseResult(() => assert${type}(value));
+}`;
+  })
   .join('\n\n')}
 
-${allTypes(config.schema)
+${allCheckableTypes(config.schema)
   .map(
-    type => `export function assert${type.name}<T>(value: NotPromise<T>): ${type.name} {
-  const error = checkValueAgainstType(value, (schema.types as {[key: string]: Type})['${type.name}'], schema as unknown as Schema);
-  if (error != '') throw new Error(error);
+    type => `export function assert${type.name}<T>(value: NotPromise<T>, options?: CheckOptions): ${type.name} {
+  compileType((schema.types as {[key: string]: Type})['${type.name}'], schema as unknown as Schema, options).assert(value);
   return value as unknown as ${type.name};
-}`
+}
+
+export function is${type.name}(value: unknown, options?: CheckOptions): value is ${type.name} {
+  return compileType((schema.types as {[key: string]: Type})['${type.name}'], schema as unknown as Schema, options).isValid(value);
+}
+
+export function parse${type.name}(value: unknown, options?: CheckOptions): ParseResult<${type.name}> {
+  return parseResult(() => assert${type.name}(value, options));
+}
+
+export function coerce${type.name}(value: unknown, options?: CheckOptions): ${type.name} {
+  return coerceValueAgainstType(value, (schema.types as {[key: string]: Type})['${type.name}'], schema as unknown as Schema, options) as ${type.name};
+}
+
+export function sanitize${type.name}<T>(value: NotPromise<T>, options?: CheckOptions): ${type.name} {
+  return sanitizeValue(value, (schema.types as {[key: string]: Type})['${type.name}'], schema as unknown as Schema, options) as ${type.name};
+}${
+      hasDefaults(config.schema, type)
+        ? withDefaultsFunction(type, fieldsWithDefaults(config.schema, type))
+        : ''
+    }`
   )
   .join('\n\n')}
 `;
@@ -134,10 +257,26 @@ ${allTypes(config.schema)
   console.log(`  Generated type checking functions for ${config.name}.`);
 }
 
+function withDefaultsFunction(type: Type, fields: string[]): string {
+  const name = assertNonNull(type.name);
+  const returnType =
+    fields.length > 0
+      ? `WithDefaults<${name}, ${fields.map(field => `'${field}'`).join(' | ')}>`
+      : name;
+  return `
+
+export function assert${name}WithDefaults<T>(value: NotPromise<T>, options?: CheckOptions): ${returnType} {
+  return assertValueWithDefaults(value, (schema.types as {[key: string]: Type})['${name}'], schema as unknown as Schema, options) as ${returnType};
+}`;
+}
+
 export type TypesConfig = {
   name: string;
   noGen: boolean;
   noFunctions: boolean;
+  // Whether the checking functions are generated as standalone code, see
+  // generate-standalone.ts.
+  standalone: boolean;
   root: string;
   absolutePathToSchema: string;
   schema: Schema;
@@ -0,0 +1,1550 @@
+// Generates standalone type checking functions: straight-line TypeScript code for every
+// type, which neither needs schema.json nor checkValueAgainstType at runtime. The
+// generated code mirrors checkValueAgainstTypeHelper, such that the error messages are
+// the same.
+
+import {
+  Constraints,
+  ResolvedType,
+  Schema,
+  TupleElement,
+  Type,
+  discriminantValues,
+  enumValueToString,
+  isEnum,
+  resolveType,
+  typeToString,
+} from '../../shared/type-definitions';
+import {
+  OBJECT_KINDS,
+  REQUIRED_KINDS,
+  allowedFieldsOfType,
+  computePropertiesOfType,
+  discriminantToString,
+  filterUnionMembers,
+  isSensitiveType,
+  pluralize,
+  redactedFieldsOfType,
+  resolveUnionMembers,
+  templateLiteralMatcher,
+  typeToShortString,
+} from '../../shared/check-type';
+import {
+  SPECIAL_NUMBER_TYPES,
+  SPECIAL_TYPES,
+  TRIMMED_SPECIAL_TYPES,
+} from '../../shared/special-types';
+import { REDACTED, ith } from '../../shared/language';
+import { allCheckableTypes } from './generate-schema';
+
+// The options of checkValueAgainstTypeHelper that are known when generating the code.
+interface Flags {
+  partial?: boolean;
+  required?: boolean;
+  ignoredFields?: string[];
+  excessFieldsChecked?: boolean;
+  // Predicates only return whether the value is valid, without building any errors.
+  predicate?: boolean;
+  // Set for the parts of sensitive values, like CheckContext.redacted.
+  redacted?: boolean;
+}
+
+// Runtime support for the generated functions, which is copied into the generated file.
+const PRELUDE = `function fail(code: CheckErrorCode, message: string, value: unknown, valueString: string, pointer: string, expected: string): TypecheckingError {
+  return new TypecheckingError(message, [{ path: valueString, pointer, code, expected, actual: javascriptTypeOf(value), message }]);
+}
+
+function missingField(field: string, valueString: string, pointer: string, expected: string): TypecheckingError {
+  const message = \`Field '\${field}' is not optional but missing from value\`;
+  return new TypecheckingError(message, [{ path: \`\${valueString}['\${field}']\`, pointer: childPointer(pointer, field), code: 'missing-field', expected, actual: 'undefined', message }]);
+}
+
+function wrap(error: unknown, value: unknown, valueString: string, typeString: string, redacted = false): unknown {
+  if (!(error instanceof TypecheckingError)) return error;
+  return new TypecheckingError(\`\${error.message}
+While checking \${valueToShortString(value, valueString, redacted)} against type \${typeString}\`, error.errors);
+}
+
+type Check = (value: any, valueString: string, pointer: string, typeString: string, strict: boolean) => void;
+
+type Predicates = Array<[string, (value: any, strict: boolean) => boolean]>;
+
+// Set for the duration of an assertX call (limits also for isX calls).
+let fullUnionErrors = false;
+let redactedFields: string[] = [];
+let limits: StandaloneCheckOptions['limits'] = undefined;
+
+// The objects whose parts are being checked, with their paths, to detect cycles.
+const ancestors = new Map<unknown, string>();
+
+// How values of a type are redacted in error messages, see isSensitiveType and
+// redactedFieldsOfType.
+type Redaction = { value: boolean; fields: string[] };
+
+function assertConforms(value: unknown, check: Check, typeName: string, options?: StandaloneCheckOptions, typeJson?: string, redaction?: Redaction) {
+  fullUnionErrors = options?.fullUnionErrors === true;
+  redactedFields = redaction?.fields ?? [];
+  limits = options?.limits;
+  try {
+    check(value, 'value', '', '_TYPE_', options?.strict === true);
+  } catch (error) {
+    if (!(error instanceof TypecheckingError) && !(error instanceof LimitExceeded)) throw error;
+    const errors = error instanceof LimitExceeded ? [error.error] : error.errors;
+    const message = error.message;
+    const redacted = redaction?.value === true || redactsAllValues();
+    // Values checked with limits might be too large (or too deeply nested) to print.
+    const omitValue = redacted || limits !== undefined;
+    const shortValueString = valueToShortString(value, 'value', redacted);
+    throw new TypecheckingError(\`\${shortValueString} does not conform to \${typeName}!
+
+\${omitValue ? message : 'value' !== shortValueString ? message.split('\\n').slice(0, -1).join('\\n') : \`\${message}
+value = \${objectToJson(value, redactedFields)}\`}
+\${typeJson !== undefined && message.includes('_TYPE_') ? \`
+_TYPE_ = \${typeJson}\` : ''}\`, errors.map(e => ({ ...e, message })));
+  } finally {
+    fullUnionErrors = false;
+    redactedFields = [];
+    limits = undefined;
+  }
+}
+
+function matchesWithLimits(value: unknown, matches: (value: any, strict: boolean) => boolean, options?: StandaloneCheckOptions): boolean {
+  limits = options?.limits;
+  try {
+    return matches(value, options?.strict === true);
+  } catch (error) {
+    if (error instanceof LimitExceeded) return false;
+    throw error;
+  } finally {
+    limits = undefined;
+  }
+}
+
+// Thrown to stop checking once a limit has been exceeded, which (unlike a
+// TypecheckingError) is not caught when trying union members.
+class LimitExceeded extends Error {
+  constructor(readonly error: CheckError) {
+    super(error.message);
+  }
+}
+
+// Throws a LimitExceeded error if checking the value (at the given depth) exceeds one of
+// the limits.
+function checkLimits(value: unknown, depth: number, valueString = 'value', pointer = '', expected = '') {
+  if (limits === undefined) return;
+  const exceeded = (message: string) => {
+    message = \`Exceeded the \${message} at \${valueString}\`;
+    return new LimitExceeded({ path: valueString, pointer, code: 'limit-exceeded', expected, actual: javascriptTypeOf(value), message });
+  };
+  if (limits.maxDepth !== undefined && depth > limits.maxDepth) {
+    throw exceeded(\`maximum depth of \${limits.maxDepth}\`);
+  }
+  if (limits.maxArrayLength !== undefined && Array.isArray(value) && value.length > limits.maxArrayLength) {
+    throw exceeded(\`maximum array length of \${limits.maxArrayLength} with \${pluralize(value.length, 'element')}\`);
+  }
+  if (limits.maxStringLength !== undefined && typeof value === 'string' && value.length > limits.maxStringLength) {
+    throw exceeded(\`maximum string length of \${limits.maxStringLength} with \${pluralize(value.length, 'character')}\`);
+  }
+}
+
+function unionMemberAttempt(error: TypecheckingError, value: any, strict: boolean, literals: Array<[string, unknown]>, fields: Predicates): UnionMemberAttempt {
+  const attempt = { error, discriminants: 0, matchedFields: 0 };
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) return attempt;
+  for (const [field, expected] of literals) {
+    if (hasProperty(value, field)) attempt.discriminants += value[field] === expected ? 1 : -1;
+  }
+  for (const [field, matches] of fields) {
+    if (hasProperty(value, field) && matches(value[field], strict)) attempt.matchedFields++;
+  }
+  return attempt;
+}
+
+function valueToShortString(value: unknown, valueString: string, redacted = false): string {
+  // Large values are not stringified at all, as they might be huge.
+  if (redacted || redactsAllValues() || !mightBeShorter(value, 40)) return valueString;
+  const result = typeof value === 'object' ? JSON.stringify(value, redactingReplacer(redactedFields)) : typeof value === 'string' ? \`'\${value}'\` : String(value);
+  if (result.length < 40) return \`\${valueString} (aka. \\\`\${result}\\\`)\`;
+  return valueString;
+}
+
+// Whether the JSON of the value (with redactedFields redacted) might be shorter than the
+// given length, which is decided without looking at more of the value than that.
+function mightBeShorter(value: unknown, length: number): boolean {
+  let remaining = length;
+  const visit = (value: unknown) => {
+    if (typeof value === 'string') {
+      remaining -= value.length + 2;
+    } else if (Array.isArray(value)) {
+      remaining -= 2;
+      for (let i = 0; i < value.length && remaining > 0; i++) visit(value[i]);
+    } else if (typeof value === 'object' && value !== null) {
+      remaining -= 2;
+      for (const key in value) {
+        if (remaining <= 0) break;
+        if (!Object.prototype.hasOwnProperty.call(value, key)) continue;
+        const child = (value as Record<string, unknown>)[key];
+        // Like JSON.stringify, skip fields that are undefined or functions.
+        if (child === undefined || typeof child === 'function') continue;
+        remaining -= key.length + 3;
+        if (redactedFields.includes(key)) {
+          remaining -= '[redacted]'.length + 2;
+        } else {
+          visit(child);
+        }
+      }
+    } else {
+      remaining -= 1;
+    }
+  };
+  visit(value);
+  return remaining > 0;
+}
+
+function shortTypeString(typeString: string, alternative: string): string {
+  return typeString.length < alternative.length + 10 ? typeString : alternative;
+}
+
+function shown(text: string, alternative = '[redacted]'): string {
+  return redactsAllValues() ? alternative : text;
+}
+
+function redactingReplacer(fields: string[]) {
+  return function (this: unknown, key: string, child: unknown) {
+    if (fields.includes(key) && !Array.isArray(this) && child !== undefined && typeof child !== 'function') return '[redacted]';
+    return child;
+  };
+}
+
+function objectToJson(value: unknown, fields: string[] = []): string {
+  if (value === undefined) return 'undefined';
+  const ancestors: unknown[] = [];
+  const redact = redactingReplacer(fields);
+  return JSON.stringify(value, function (this: unknown, key: string, child: unknown) {
+    child = redact.call(this, key, child);
+    if (typeof child !== 'object' || child === null) return child;
+    while (ancestors.length > 0 && ancestors[ancestors.length - 1] !== this) ancestors.pop();
+    if (ancestors.includes(child)) return '[Circular]';
+    ancestors.push(child);
+    return child;
+  }, 2);
+}
+
+function hasProperty(value: any, property: string): boolean {
+  return typeof value == 'object' && value != null && property in value && value[property] !== undefined;
+}
+
+function childPointer(pointer: string, token: string): string {
+  return \`\${pointer}/\${token.replace(/~/g, '~0').replace(/\\//g, '~1')}\`;
+}
+
+function javascriptTypeOf(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function enumValueToString(value: string | number): string {
+  return typeof value === 'string' ? \`'\${value}'\` : value.toString();
+}
+
+function discriminantToString(value: unknown): string {
+  return typeof value === 'string' ? \`'\${value}'\` : String(value);
+}
+
+function pluralize(n: number, noun: string) {
+  return \`\${n} \${noun}\${n == 1 ? '' : 's'}\`;
+}`;
+
+const literal = (value: unknown) => JSON.stringify(value);
+
+// The Typescript type of a special type in generated code: built-in special types are
+// imported from types/common, and other brands (which are not part of the schema) are
+// written out, e.g. `string & { _CustomerId: unknown }`.
+export function specialTypeName(name: string, kind: string): string {
+  return SPECIAL_TYPES.includes(name) || SPECIAL_NUMBER_TYPES.includes(name)
+    ? name
+    : `${kind} & { _${name}: unknown }`;
+}
+
+// Returns the body of the generated file (without the imports of the checked types).
+export function standaloneCheckingFunctions(
+  schema: Schema,
+  usedSpecialTypes: Map<string, string>,
+  pathToSharedFromSchema: (filename: string) => string
+): string {
+  const functions: string[] = [];
+  const constants: string[] = [];
+  const functionNames = new Map<string, string>();
+  const usedValidators = new Set<string>();
+  let usesRegisteredSpecialTypes = false;
+
+  const constant = (prefix: string, value: string, type?: string) => {
+    const name = `${prefix}${constants.length}`;
+    constants.push(
+      `const ${name}${type !== undefined ? `: ${type}` : ''} = ${value};`
+    );
+    return name;
+  };
+
+  // The expression that scores how close the value is to the union member, see
+  // unionMemberAttempt in check-type.ts.
+  const unionMemberAttempt = (member: Type) => {
+    const resolved = resolveType(schema, member);
+    const literals: Array<[string, unknown]> = [];
+    const fields: string[] = [];
+    if (resolved.kind === 'interface') {
+      for (const field of resolved.fields) {
+        if (
+          field.type.kind === 'string-literal' ||
+          field.type.kind === 'number-literal' ||
+          field.type.kind === 'boolean-literal'
+        ) {
+          literals.push([field.name, field.type.value]);
+        } else {
+          fields.push(
+            `[${literal(field.name)}, ${checkFunction(field.type, {
+              predicate: true,
+            })}]`
+          );
+        }
+      }
+    }
+    return `unionMemberAttempt(error, value, strict, ${constant(
+      'LITERAL_FIELDS',
+      literal(literals),
+      'Array<[string, unknown]>'
+    )}, ${constant('MATCHED_FIELDS', `[${fields.join(', ')}]`, 'Predicates')})`;
+  };
+
+  // The expression for typeToShortString(type, alternative), where the alternative is
+  // only known at runtime.
+  const typeStringOf = (type: Type, alternative?: string) => {
+    const str = typeToShortString(type);
+    if (type.name !== undefined || alternative === undefined || str.length < 40) {
+      return literal(str);
+    }
+    return `shortTypeString(${literal(str)}, ${alternative})`;
+  };
+
+  // Returns the name of the function that checks the type (with the given flags).
+  const checkFunction = (type: Type, flags: Flags): string => {
+    // Predicates don't build error messages, and sensitive types are redacted anyway.
+    const redacted =
+      flags.redacted === true &&
+      flags.predicate !== true &&
+      !isSensitiveType(schema, type);
+    flags = { ...flags, redacted };
+    const flagsKey = literal([
+      flags.partial === true,
+      flags.required === true,
+      flags.excessFieldsChecked === true,
+      flags.ignoredFields ?? [],
+      flags.predicate === true,
+      redacted,
+    ]);
+    // A reference to a type is the same as checking the type itself (except for generic
+    // types, which are instantiated with their defaults).
+    const referenced =
+      type.kind === 'reference-type' &&
+      type.constraints === undefined &&
+      type.referencedTypeName in schema.types &&
+      !['reference-type', 'instantiation', 'generic'].includes(
+        schema.types[type.referencedTypeName].kind
+      )
+        ? type.referencedTypeName
+        : undefined;
+    const key =
+      referenced !== undefined
+        ? `${referenced}|${flagsKey}`
+        : `${literal(type)}|${flagsKey}`;
+    const existing = functionNames.get(key);
+    if (existing !== undefined) return existing;
+    const prefix = flags.predicate === true ? 'matches' : 'check';
+    const isDefault =
+      flagsKey ===
+      literal([false, false, false, [], flags.predicate === true, false]);
+    const name =
+      referenced !== undefined && isDefault
+        ? `${prefix}${referenced}`
+        : `${prefix}${functionNames.size}`;
+    functionNames.set(key, name);
+    const body = checkBody(
+      referenced !== undefined ? schema.types[referenced] : type,
+      flags
+    );
+    if (flags.predicate === true) {
+      functions.push(`function ${name}(value: any, strict: boolean): boolean {
+  if (limits !== undefined) checkLimits(value, ancestors.size);
+${body.map(line => `  ${line}`).join('\n')}
+  return true;
+}`);
+      return name;
+    }
+    functions.push(`function ${name}(value: any, valueString: string, pointer: string, typeString: string, strict: boolean): void {
+  if (limits !== undefined) checkLimits(value, pointer.split('/').length - 1, valueString, pointer, ${literal(
+    typeToShortString(referenced !== undefined ? schema.types[referenced] : type)
+  )});
+  try {
+${body.map(line => `    ${line}`).join('\n')}
+  } catch (error) {
+    throw wrap(error, value, valueString, ${typeStringOf(
+      resolveType(schema, type),
+      'typeString'
+    )}${redacted || isSensitiveType(schema, type) ? ', true' : ''});
+  }
+}`);
+    return name;
+  };
+
+  // A call of the function that checks the given part of the value.
+  const caller =
+    (predicate: boolean) =>
+    (
+      type: Type,
+      flags: Flags,
+      value: string,
+      valueString: string,
+      pointer: string,
+      typeString: string
+    ) =>
+      predicate
+        ? `if (!${checkFunction(type, {
+            ...flags,
+            predicate,
+          })}(${value}, strict)) return false;`
+        : `${checkFunction(
+            type,
+            flags
+          )}(${value}, ${valueString}, ${pointer}, ${typeString}, strict);`;
+
+  const checkBody = (unresolvedType: Type, flags: Flags): string[] => {
+    const lines: string[] = [];
+    const type = resolveType(schema, unresolvedType);
+    const expected = literal(typeToShortString(unresolvedType));
+    const predicate = flags.predicate === true;
+    const redacted =
+      flags.redacted === true || isSensitiveType(schema, unresolvedType);
+    // The expression that shows (a part of) the value in an error message, or the
+    // alternative if it is redacted.
+    const shown = (text: string, alternative = REDACTED) =>
+      redacted
+        ? literal(alternative)
+        : alternative === REDACTED
+        ? `shown(${text})`
+        : `shown(${text}, ${literal(alternative)})`;
+    const fail = (code: string, message: string) =>
+      predicate
+        ? `return false;`
+        : `throw fail('${code}', ${message}, value, valueString, pointer, ${expected});`;
+    const checkJsType = (jsType: string) =>
+      `if (typeof value !== '${jsType}') ${fail(
+        'wrong-type',
+        `"Expected Javascript type ${jsType}, but got type " + typeof value`
+      )}`;
+    const error = (message: string) => `throw new Error(${literal(message)});`;
+    const ignoredFields = flags.ignoredFields ?? [];
+
+    lines.push(...constraintChecks(type.constraints, fail, shown));
+    if (
+      unresolvedType.constraints !== type.constraints &&
+      unresolvedType.constraints !== undefined
+    ) {
+      lines.push(...constraintChecks(unresolvedType.constraints, fail, shown));
+    }
+    if (type.strict === true) lines.push(`strict = true;`);
+    if (flags.excessFieldsChecked !== true && OBJECT_KINDS.includes(type.kind)) {
+      let allowedFields: string[] | undefined = undefined;
+      let allowedFieldsError: string | undefined = undefined;
+      try {
+        allowedFields = allowedFieldsOfType(schema, type);
+      } catch (e) {
+        allowedFieldsError = (e as Error).message;
+      }
+      const isObject = `strict && typeof value === 'object' && value !== null && !Array.isArray(value)`;
+      if (allowedFieldsError !== undefined) {
+        lines.push(`if (${isObject}) ${error(allowedFieldsError)}`);
+      } else if (allowedFields !== undefined) {
+        const allowed = constant('ALLOWED_FIELDS', literal(allowedFields), 'string[]');
+        lines.push(
+          `if (${isObject}) {`,
+          `  const excessFields = Object.keys(value).filter(field => !${allowed}.includes(field));`,
+          `  if (excessFields.length > 0) ${fail(
+            'excess-field',
+            "`Unexpected ${excessFields.length == 1 ? 'field' : 'fields'} ${excessFields.map(field => `${valueString}['${field}']`).join(', ')} (strict mode)`"
+          )}`,
+          `}`
+        );
+      }
+    }
+    if (flags.partial === true && type.kind != 'interface') {
+      lines.push(
+        error(
+          `Can only check Partial<T> for interface T, but T was ${typeToString(
+            type
+          )}`
+        )
+      );
+      return lines;
+    }
+    if (flags.required === true && !REQUIRED_KINDS.includes(type.kind)) {
+      lines.push(
+        error(
+          `Can only check Required<T> for interface, mapped, intersection, Omit or Pick type T, but T was ${typeToString(
+            type
+          )}`
+        )
+      );
+      return lines;
+    }
+    lines.push(
+      ...kindChecks(type, flags, ignoredFields, {
+        fail,
+        checkJsType,
+        error,
+        shown,
+        // The parts of redacted values are redacted as well.
+        call: (type, flags, ...args) =>
+          caller(predicate)(
+            type,
+            redacted ? { ...flags, redacted } : flags,
+            ...args
+          ),
+        missingField: (field: string, fieldType: Type) =>
+          predicate
+            ? `return false;`
+            : `throw missingField(${literal(
+                field
+              )}, valueString, pointer, ${literal(
+                typeToShortString(fieldType)
+              )});`,
+        succeed: predicate ? `return true;` : `return;`,
+      })
+    );
+    return lines;
+  };
+
+  const constraintChecks = (
+    constraints: Constraints | undefined,
+    fail: (code: string, message: string) => string,
+    shown: (text: string) => string
+  ): string[] => {
+    if (constraints === undefined) return [];
+    const violated = (constraint: keyof Constraints, message: string) =>
+      fail('constraint-violation', `${message} + " (violates @${constraint})"`);
+    const { minLength, maxLength, pattern } = constraints;
+    const { minimum, maximum, integer } = constraints;
+    const { minItems, maxItems, uniqueItems } = constraints;
+    const stringChecks: string[] = [];
+    if (minLength !== undefined) {
+      stringChecks.push(
+        `if (value.length < ${minLength}) ${violated(
+          'minLength',
+          `${literal(
+            `Expected a string with at least ${pluralize(
+              minLength,
+              'character'
+            )}, but got `
+          )} + value.length`
+        )}`
+      );
+    }
+    if (maxLength !== undefined) {
+      stringChecks.push(
+        `if (value.length > ${maxLength}) ${violated(
+          'maxLength',
+          `${literal(
+            `Expected a string with at most ${pluralize(
+              maxLength,
+              'character'
+            )}, but got `
+          )} + value.length`
+        )}`
+      );
+    }
+    if (pattern !== undefined) {
+      const regExp = constant('PATTERN', `new RegExp(${literal(pattern)})`);
+      stringChecks.push(
+        `if (!${regExp}.test(value)) ${violated(
+          'pattern',
+          `${literal(
+            `Expected a string matching /${pattern}/, but got `
+          )} + ${shown(`"'" + value + "'"`)}`
+        )}`
+      );
+    }
+    const numberChecks: string[] = [];
+    if (minimum !== undefined) {
+      numberChecks.push(
+        `if (!(value >= ${minimum})) ${violated(
+          'minimum',
+          `${literal(`Expected a number >= ${minimum}, but got `)} + ${shown(
+            'String(value)'
+          )}`
+        )}`
+      );
+    }
+    if (maximum !== undefined) {
+      numberChecks.push(
+        `if (!(value <= ${maximum})) ${violated(
+          'maximum',
+          `${literal(`Expected a number <= ${maximum}, but got `)} + ${shown(
+            'String(value)'
+          )}`
+        )}`
+      );
+    }
+    if (integer === true) {
+      numberChecks.push(
+        `if (!Number.isInteger(value)) ${violated(
+          'integer',
+          `"Expected an integer, but got " + ${shown('String(value)')}`
+        )}`
+      );
+    }
+    const arrayChecks: string[] = [];
+    if (minItems !== undefined) {
+      arrayChecks.push(
+        `if (value.length < ${minItems}) ${violated(
+          'minItems',
+          `${literal(
+            `Expected an array with at least ${pluralize(
+              minItems,
+              'item'
+            )}, but got `
+          )} + value.length`
+        )}`
+      );
+    }
+    if (maxItems !== undefined) {
+      arrayChecks.push(
+        `if (value.length > ${maxItems}) ${violated(
+          'maxItems',
+          `${literal(
+            `Expected an array with at most ${pluralize(
+              maxItems,
+              'item'
+            )}, but got `
+          )} + value.length`
+        )}`
+      );
+    }
+    if (uniqueItems === true) {
+      arrayChecks.push(
+        `const seen = new Map<string, number>();`,
+        `for (let i = 0; i < value.length; ++i) {`,
+        `  const key = objectToJson(value[i]);`,
+        `  const previous = seen.get(key);`,
+        `  if (previous !== undefined) ${violated(
+          'uniqueItems',
+          '`Expected unique items, but ${valueString}[${previous}] and ${valueString}[${i}] are equal`'
+        )}`,
+        `  seen.set(key, i);`,
+        `}`
+      );
+    }
+    const block = (condition: string, checks: string[]) =>
+      checks.length == 0
+        ? []
+        : [`if (${condition}) {`, ...checks.map(line => `  ${line}`), `}`];
+    return [
+      ...block(`typeof value === 'string'`, stringChecks),
+      ...block(`typeof value === 'number'`, numberChecks),
+      ...block(`Array.isArray(value)`, arrayChecks),
+    ];
+  };
+
+  const specialTypeChecks = (
+    specialName: string,
+    kind: 'string' | 'number' | 'boolean',
+    fail: (code: string, message: string) => string,
+    shown: (text: string, alternative?: string) => string
+  ): string[] => {
+    const lines: string[] = [];
+    const builtIn =
+      (kind === 'string' && SPECIAL_TYPES.includes(specialName)) ||
+      (kind === 'number' && SPECIAL_NUMBER_TYPES.includes(specialName));
+    // The validator's message might show the value as well.
+    const invalid = shown(
+      `result + " Got " + ${
+        kind === 'string' ? `"'" + value + "'"` : 'String(value)'
+      } + ${literal(` for ${specialName}`)}`,
+      `Expected a valid ${specialName}, but got ${REDACTED}`
+    );
+    if (builtIn) {
+      usedValidators.add(specialName);
+      lines.push(
+        `const result = validate${specialName}(value);`,
+        `if (result !== '') ${fail('special-type-invalid', invalid)}`
+      );
+    } else {
+      usesRegisteredSpecialTypes = true;
+      lines.push(
+        `const validator = registeredSpecialType(${literal(specialName)});`,
+        `if (validator !== undefined) {`,
+        `  const result = validator(value);`,
+        `  if (result !== '') ${fail('special-type-invalid', invalid)}`,
+        `}`
+      );
+    }
+    if (kind === 'string' && TRIMMED_SPECIAL_TYPES.includes(specialName)) {
+      lines.push(
+        `if (value !== value.trim()) ${fail(
+          'special-type-invalid',
+          `${literal(
+            `${specialName} must not have extra whitespace, but found `
+          )} + ${shown(`"'" + value + "'"`)} + " == value != value.trim() == " + ${shown(
+            `"'" + value.trim() + "'"`
+          )}`
+        )}`
+      );
+    }
+    return lines;
+  };
+
+  const kindChecks = (
+    type: ResolvedType,
+    flags: Flags,
+    ignoredFields: string[],
+    helpers: {
+      fail: (code: string, message: string) => string;
+      checkJsType: (jsType: string) => string;
+      error: (message: string) => string;
+      shown: (text: string, alternative?: string) => string;
+      call: ReturnType<typeof caller>;
+      missingField: (field: string, fieldType: Type) => string;
+      succeed: string;
+    }
+  ): string[] => {
+    const { fail, checkJsType, error, shown, call, missingField, succeed } =
+      helpers;
+    // Objects with fields (unlike e.g. arrays) are checked for null as well.
+    const checkObject = () => [
+      checkJsType('object'),
+      `if (value === null) ${fail(
+        'wrong-type',
+        literal('Expected Javascript type object, but got null')
+      )}`,
+    ];
+    const notIgnored = (field: string) =>
+      ignoredFields.length == 0
+        ? []
+        : [
+            `if (${constant(
+              'IGNORED_FIELDS',
+              literal(ignoredFields),
+              'string[]'
+            )}.includes(${field})) continue;`,
+          ];
+    // Checks the parts of the value with the given lines, which fails if the value is
+    // one of its own parts.
+    const descend = (lines: string[]) => [
+      `if (ancestors.has(value)) ${fail(
+        'cyclic-value',
+        '"Found a cycle: " + valueString + " is the same object as " + ancestors.get(value)'
+      )}`,
+      `ancestors.set(value, ${flags.predicate === true ? "''" : 'valueString'});`,
+      `try {`,
+      ...lines.map(line => `  ${line}`),
+      `} finally {`,
+      `  ancestors.delete(value);`,
+      `}`,
+    ];
+    const everyField = (valueType: Type) =>
+      descend([
+        `for (const field of Object.keys(value)) {`,
+        ...notIgnored('field').map(line => `  ${line}`),
+        `  ${call(
+          valueType,
+          {},
+          'value[field]',
+          `valueString + "['" + field + "']"`,
+          'childPointer(pointer, field)',
+          literal(typeToShortString(valueType))
+        )}`,
+        `}`,
+      ]);
+    const property = (
+      name: string,
+      optional: boolean,
+      propertyType: Type,
+      typeString: string,
+      sensitive = false
+    ) => {
+      const lines: string[] = [];
+      const value = `value[${literal(name)}]`;
+      if (
+        (!optional || flags.required === true) &&
+        flags.partial !== true
+      ) {
+        lines.push(
+          `if (!hasProperty(value, ${literal(name)})) ${missingField(
+            name,
+            propertyType
+          )}`
+        );
+      }
+      if (flags.predicate === true) {
+        lines.push(
+          `if (hasProperty(value, ${literal(name)}) && !${checkFunction(
+            propertyType,
+            { predicate: true }
+          )}(${value}, strict)) return false;`
+        );
+        return lines;
+      }
+      lines.push(
+        `if (hasProperty(value, ${literal(name)})) ${call(
+          propertyType,
+          sensitive ? { redacted: true } : {},
+          value,
+          `valueString + ${literal(`['${name}']`)}`,
+          `pointer + ${literal(
+            `/${name.replace(/~/g, '~0').replace(/\//g, '~1')}`
+          )}`,
+          typeString
+        )}`
+      );
+      return lines;
+    };
+
+    switch (type.kind) {
+      case 'string':
+      case 'number':
+      case 'boolean':
+        return [
+          checkJsType(type.kind),
+          ...(type.specialName !== undefined
+            ? specialTypeChecks(type.specialName, type.kind, fail, shown)
+            : []),
+        ];
+      case 'unknown':
+        return [];
+      case 'generic':
+      case 'type-parameter':
+        return [
+          error(
+            `Cannot check against ${typeToString(
+              type
+            )}, because it is not instantiated.`
+          ),
+        ];
+      case 'boolean-literal':
+        return [
+          checkJsType('boolean'),
+          `if (value !== ${type.value}) ${fail(
+            'literal-mismatch',
+            literal(`Expected ${type.value ? 'true' : 'false'} literal`)
+          )}`,
+        ];
+      case 'keyof': {
+        let keys: string[];
+        try {
+          keys = computePropertiesOfType(schema, type.base);
+        } catch (e) {
+          return [checkJsType('string'), error((e as Error).message)];
+        }
+        return [
+          checkJsType('string'),
+          `if (!${constant('KEYS', literal(keys), 'string[]')}.includes(value)) ${fail(
+            'enum-mismatch',
+            `${literal(
+              `Expected one of [${keys.map(value => `'${value}'`)}], but got `
+            )} + ${shown(`"'" + value + "'"`)}`
+          )}`,
+        ];
+      }
+      case 'index-signature':
+        return [
+          ...checkObject(),
+          ...descend([
+            `for (const field of Object.keys(value)) {`,
+            `  ${call(
+              type.valueType,
+              {},
+              'value[field]',
+              `valueString + "['" + field + "']"`,
+              'childPointer(pointer, field)',
+              literal(typeToShortString(type.valueType))
+            )}`,
+            `}`,
+          ]),
+        ];
+      case 'omit':
+        return [
+          call(
+            type.base,
+            {
+              ignoredFields: ignoredFields.concat(type.omittedFields),
+              excessFieldsChecked: true,
+              required: flags.required,
+            },
+            'value',
+            'valueString',
+            'pointer',
+            literal(typeToShortString(type))
+          ),
+        ];
+      case 'pick': {
+        const pickedFields = type.pickedFields;
+        let baseFields: string[];
+        try {
+          baseFields = computePropertiesOfType(schema, type.base);
+        } catch (e) {
+          return [error((e as Error).message)];
+        }
+        return [
+          call(
+            type.base,
+            {
+              ignoredFields: ignoredFields.concat(
+                baseFields.filter(field => !pickedFields.includes(field))
+              ),
+              excessFieldsChecked: true,
+              required: flags.required,
+            },
+            'value',
+            'valueString',
+            'pointer',
+            literal(typeToShortString(type))
+          ),
+        ];
+      }
+      case 'exclude':
+      case 'extract': {
+        const members = filterUnionMembers(schema, type);
+        if (members.length == 0) {
+          return [
+            fail(
+              'union-no-match',
+              literal(
+                `No value conforms to ${typeToString(
+                  type
+                )}, because it has no union members left`
+              )
+            ),
+          ];
+        }
+        return [
+          call(
+            members.length == 1
+              ? members[0]
+              : { kind: 'union', unionMembers: members },
+            { ignoredFields, excessFieldsChecked: flags.excessFieldsChecked },
+            'value',
+            'valueString',
+            'pointer',
+            literal(typeToShortString(type))
+          ),
+        ];
+      }
+      case 'non-nullable':
+        return [
+          `if (value === null || value === undefined) ${fail(
+            'wrong-type',
+            `"Expected a non-null value, but got " + value`
+          )}`,
+          call(
+            type.elementType,
+            { ignoredFields, excessFieldsChecked: flags.excessFieldsChecked },
+            'value',
+            'valueString',
+            'pointer',
+            literal(typeToShortString(type.elementType))
+          ),
+        ];
+      case 'mapped': {
+        if (type.mapFrom.kind === 'string') {
+          return [...checkObject(), ...everyField(type.mapTo)];
+        }
+        let properties = undefined;
+        try {
+          properties = computePropertiesOfType(schema, type);
+        } catch (e) {
+          // do nothing
+        }
+        if (properties === undefined) {
+          return [...checkObject(), ...everyField(type.mapTo)];
+        }
+        const mapTo = type.mapTo;
+        return [
+          ...checkObject(),
+          ...descend(
+            properties
+              .filter(name => !ignoredFields.includes(name))
+              .flatMap(name =>
+                property(
+                  name,
+                  type.optional === true,
+                  mapTo,
+                  literal(typeToShortString(mapTo))
+                )
+              )
+          ),
+        ];
+      }
+      case 'null':
+        return [
+          `if (value !== null) ${fail('wrong-type', `"Expected null value"`)}`,
+        ];
+      case 'undefined':
+        return [
+          `if (value !== undefined) ${fail(
+            'wrong-type',
+            `"Expected undefined value"`
+          )}`,
+        ];
+      case 'string-literal':
+        return [
+          checkJsType('string'),
+          `if (value !== ${literal(type.value)}) ${fail(
+            'literal-mismatch',
+            `${literal(
+              `Expected string literal '${type.value}', but got `
+            )} + ${shown(`"'" + value + "'"`)}`
+          )}`,
+        ];
+      case 'number-literal':
+        return [
+          checkJsType('number'),
+          `if (value !== ${type.value}) ${fail(
+            'literal-mismatch',
+            `${literal(
+              `Expected number literal '${type.value}', but got `
+            )} + ${shown(`"'" + value + "'"`)}`
+          )}`,
+        ];
+      case 'template-literal': {
+        let matcher;
+        try {
+          matcher = templateLiteralMatcher(schema, type);
+        } catch (e) {
+          return [checkJsType('string'), error((e as Error).message)];
+        }
+        const full = constant('TEMPLATE', `/${matcher.full.source}/`);
+        const prefixes = matcher.prefixes.map(prefix =>
+          constant('TEMPLATE', `/${prefix.source}/`)
+        );
+        const mismatch = `${literal(
+          `Expected string matching ${typeToString({
+            ...type,
+            name: undefined,
+          })}, but got `
+        )} + ${shown(`"'" + value + "'"`)}`;
+        return [
+          checkJsType('string'),
+          `if (!${full}.test(value)) {`,
+          `  if (!${prefixes[0]}.test(value)) ${fail(
+            'template-literal-mismatch',
+            `${mismatch} + ${literal(`: it does not start with '${type.head}'`)}`
+          )}`,
+          ...type.spans.map(
+            (span, i) =>
+              `  if (!${prefixes[i + 1]}.test(value)) ${fail(
+                'template-literal-mismatch',
+                `${mismatch} + ${literal(
+                  `: the ${ith(i + 1)} span \`\${${typeToString(span.type)}}${
+                    span.literal
+                  }\` does not match`
+                )}`
+              )}`
+          ),
+          `  ${fail(
+            'template-literal-mismatch',
+            `${mismatch} + ": it has unexpected trailing characters"`
+          )}`,
+          `}`,
+        ];
+      }
+      case 'enum': {
+        const values = type.members.map(member => member.value);
+        const jsTypeChecks = values.every(value => typeof value === 'string')
+          ? [checkJsType('string')]
+          : values.every(value => typeof value === 'number')
+          ? [checkJsType('number')]
+          : [
+              `if (typeof value !== 'string' && typeof value !== 'number') ${fail(
+                'wrong-type',
+                `"Expected Javascript type string or number, but got type " + typeof value`
+              )}`,
+            ];
+        return [
+          ...jsTypeChecks,
+          `if (!${constant('ENUM_VALUES', literal(values))}.includes(value)) ${fail(
+            'enum-mismatch',
+            `${literal(
+              `Expected one of [${values.map(enumValueToString).join(', ')}], but got `
+            )} + ${shown('enumValueToString(value)')}`
+          )}`,
+        ];
+      }
+      case 'intersection':
+        return type.intersectionMembers.map(member =>
+          call(
+            member,
+            { ignoredFields, excessFieldsChecked: true, required: flags.required },
+            'value',
+            'valueString',
+            'pointer',
+            literal(typeToString(member, { short: true }))
+          )
+        );
+      case 'union': {
+        const enums = isEnum(type);
+        if (enums !== undefined) {
+          return [
+            checkJsType('string'),
+            `if (!${constant('ENUM_VALUES', literal(enums))}.includes(value)) ${fail(
+              'enum-mismatch',
+              `${literal(
+                `Expected one of [${enums
+                  .map(value => `'${value}'`)
+                  .join(', ')}], but got `
+              )} + ${shown(`"'" + value + "'"`)}`
+            )}`,
+          ];
+        }
+        const memberFlags = {
+          ignoredFields,
+          excessFieldsChecked: flags.excessFieldsChecked,
+        };
+        if (
+          type.discriminant !== undefined &&
+          !ignoredFields.includes(type.discriminant.field)
+        ) {
+          const { field, members } = type.discriminant;
+          const values = discriminantValues(type.discriminant);
+          const jsType = typeof values[0];
+          const fieldValue = `value[${literal(field)}]`;
+          return [
+            checkJsType('object'),
+            `if (!hasProperty(value, ${literal(field)})) ${fail(
+              'union-no-match',
+              literal(`Field '${field}' is missing from union`)
+            )}`,
+            ...(values.every(value => typeof value === jsType)
+              ? [
+                  `if (typeof ${fieldValue} !== '${jsType}') ${fail(
+                    'union-no-match',
+                    `${literal(
+                      `Expected field '${field}' to have Javascript type ${jsType}, but found type `
+                    )} + typeof ${fieldValue}`
+                  )}`,
+                ]
+              : []),
+            `switch (${fieldValue}) {`,
+            ...values.flatMap(value => {
+              const member = resolveType(
+                schema,
+                type.unionMembers[members[JSON.stringify(value)]]
+              );
+              return [
+                `  case ${literal(value)}:`,
+                `    ${call(
+                  member,
+                  memberFlags,
+                  'value',
+                  'valueString',
+                  'pointer',
+                  typeStringOf(
+                    member,
+                    `typeString + ${literal(
+                      `[${field} == ${discriminantToString(value)}]`
+                    )}`
+                  )
+                )}`,
+                `    ${succeed}`,
+              ];
+            }),
+            `  default:`,
+            `    ${fail(
+              'union-no-match',
+              `${literal(
+                `Expected field '${field}' to be one of [${values
+                  .map(discriminantToString)
+                  .join(', ')}], but got `
+              )} + ${shown(`discriminantToString(${fieldValue})`)}`
+            )}`,
+            `}`,
+          ];
+        }
+        if (flags.predicate === true) {
+          return [
+            ...type.unionMembers.map(
+              member =>
+                `if (${checkFunction(member, {
+                  ...memberFlags,
+                  predicate: true,
+                })}(value, strict)) return true;`
+            ),
+            `return false;`,
+          ];
+        }
+        return [
+          `const attempts: UnionMemberAttempt[] = [];`,
+          ...type.unionMembers.flatMap((member, i) => [
+            `try {`,
+            `  ${call(
+              member,
+              memberFlags,
+              'value',
+              'valueString',
+              'pointer',
+              typeStringOf(
+                member,
+                `typeString + ${literal(`[${ith(i + 1)} union member]`)}`
+              )
+            )}`,
+            `  return;`,
+            `} catch (error) {`,
+            `  if (!(error instanceof TypecheckingError)) throw error;`,
+            `  attempts.push(${unionMemberAttempt(member)});`,
+            `}`,
+          ]),
+          fail(
+            'union-no-match',
+            `unionMismatchMessage(attempts, valueString, fullUnionErrors)`
+          ),
+        ];
+      }
+      case 'array':
+        return [
+          checkJsType('object'),
+          `if (!Array.isArray(value)) ${fail(
+            'wrong-type',
+            `"Expected an array, but value is not an array"`
+          )}`,
+          ...descend([
+            `for (let i = 0; i < value.length; ++i) {`,
+            `  ${call(
+              type.elementType,
+              {},
+              'value[i]',
+              'valueString + "[" + i + "]"',
+              'pointer + "/" + i',
+              typeStringOf(type.elementType, `typeString + "[array element type]"`)
+            )}`,
+            `}`,
+          ]),
+        ];
+      case 'tuple': {
+        const elements = type.elements;
+        const restIndex = elements.findIndex(element => element.rest);
+        const leading =
+          restIndex === -1 ? elements : elements.slice(0, restIndex);
+        const trailing =
+          restIndex === -1 ? [] : elements.slice(restIndex + 1);
+        const minLength =
+          leading.filter(element => !element.optional).length +
+          trailing.length;
+        const maxLength = restIndex === -1 ? elements.length : Infinity;
+        const expectedLength =
+          minLength === maxLength
+            ? `exactly ${pluralize(minLength, 'element')}`
+            : maxLength === Infinity
+            ? `at least ${pluralize(minLength, 'element')}`
+            : `${minLength} to ${pluralize(maxLength, 'element')}`;
+        // The description of element i, where i is only known at runtime.
+        const elementName = (i: string, element: TupleElement) =>
+          element.name !== undefined
+            ? `"tuple element " + ${i} + ${literal(` (${element.name})`)}`
+            : `"tuple element " + ${i}`;
+        const checkElement = (
+          i: string,
+          elementType: Type,
+          description: string
+        ) =>
+          call(
+            elementType,
+            {},
+            `value[${i}]`,
+            `valueString + "[" + ${i} + "]"`,
+            `pointer + "/" + ${i}`,
+            typeStringOf(elementType, `typeString + "[" + ${description} + "]"`)
+          );
+        const checks = [
+          checkJsType('object'),
+          `if (!Array.isArray(value)) ${fail(
+            'wrong-type',
+            `"Expected an array, but value is not an array"`
+          )}`,
+          `if (value.length < ${minLength}${
+            maxLength === Infinity ? '' : ` || value.length > ${maxLength}`
+          }) ${fail(
+            'tuple-length',
+            `${literal(
+              `Expected a tuple with ${expectedLength}, but got an array with `
+            )} + pluralize(value.length, 'element')`
+          )}`,
+        ];
+        const lines = [
+          ...leading.map(
+            (element, i) =>
+              `if (${i} < value.length) ${checkElement(
+                `${i}`,
+                element.type,
+                elementName(`${i}`, element)
+              )}`
+          ),
+        ];
+        if (restIndex === -1) return [...checks, ...descend(lines)];
+        const rest = elements[restIndex];
+        const restType = resolveType(schema, rest.type);
+        if (restType.kind !== 'array') {
+          lines.push(
+            error(
+              `Only rest elements of array type are supported, but found ${typeToString(
+                restType
+              )}`
+            )
+          );
+          return [...checks, ...descend(lines)];
+        }
+        lines.push(
+          `const trailingStart = value.length - ${trailing.length};`,
+          `for (let i = ${leading.length}; i < trailingStart; ++i) {`,
+          `  ${checkElement(
+            'i',
+            restType.elementType,
+            `${elementName('i', rest)} + ", rest element"`
+          )}`,
+          `}`,
+          ...trailing.map(
+            (element, i) =>
+              checkElement(
+                `(trailingStart + ${i})`,
+                element.type,
+                elementName(`(trailingStart + ${i})`, element)
+              )
+          )
+        );
+        return [...checks, ...descend(lines)];
+      }
+      case 'partial':
+      case 'required':
+        return [
+          call(
+            resolveType(schema, type.elementType),
+            {
+              partial: type.kind == 'partial',
+              required: type.kind == 'required',
+              ignoredFields,
+              excessFieldsChecked: true,
+            },
+            'value',
+            'valueString',
+            'pointer',
+            typeStringOf(
+              type,
+              type.kind == 'partial'
+                ? '"Partial<" + typeString + ">"'
+                : '"Required<" + typeString + ">"'
+            )
+          ),
+        ];
+      case 'interface':
+        return [
+          ...checkObject(),
+          ...descend(
+            type.fields
+              .filter(field => !ignoredFields.includes(field.name))
+              .flatMap(field =>
+                property(
+                  field.name,
+                  field.optional,
+                  field.type,
+                  typeStringOf(
+                    field.type,
+                    `typeString + ${literal(`['${field.name}']`)}`
+                  ),
+                  field.sensitive === true
+                )
+              )
+          ),
+          ...type.heritage.map(heritage =>
+            call(
+              heritage,
+              {
+                ignoredFields,
+                excessFieldsChecked: true,
+                partial: flags.partial,
+                required: flags.required,
+              },
+              'value',
+              'valueString',
+              'pointer',
+              literal(typeToString(heritage, { short: true }))
+            )
+          ),
+        ];
+    }
+  };
+
+  // The type is only printed if an error message refers to it as _TYPE_, which can only
+  // happen if one of its direct parts is long and unnamed.
+  const mentionsTypeString = (type: Type): boolean => {
+    const resolved = resolveType(schema, type);
+    const isLong = (part: Type, suffix: string) => {
+      const str = typeToShortString(part);
+      return (
+        part.name === undefined &&
+        str.length >= 40 &&
+        str.length >= '_TYPE_'.length + suffix.length + 10
+      );
+    };
+    switch (resolved.kind) {
+      case 'interface':
+        return resolved.fields.some(field =>
+          isLong(field.type, `['${field.name}']`)
+        );
+      case 'array':
+        return isLong(resolved.elementType, '[array element type]');
+      case 'tuple':
+        return resolved.elements.some(element =>
+          isLong(element.type, '[tuple element]')
+        );
+      case 'union':
+        return (
+          resolved.unionMembers.some(member =>
+            isLong(member, '[1st union member]')
+          ) ||
+          resolveUnionMembers(schema, resolved).some(member =>
+            isLong(member, '[kind == ]')
+          )
+        );
+      default:
+        return false;
+    }
+  };
+
+  // The redaction argument of assertConforms for the type, if anything is redacted.
+  const redactionOf = (type: Type) => {
+    const value = isSensitiveType(schema, type);
+    const fields = redactedFieldsOfType(schema, type);
+    if (!value && fields.length == 0) return undefined;
+    return constant('REDACTION', literal({ value, fields }), 'Redaction');
+  };
+
+  const asserts = [...usedSpecialTypes]
+    .map(([name, kind]) => {
+      const type: Type = {
+        kind: kind as 'string' | 'number' | 'boolean',
+        specialName: name,
+      };
+      const check = checkFunction(type, {});
+      const matches = checkFunction(type, { predicate: true });
+      const redaction = redactionOf(type);
+      const typeName = specialTypeName(name, kind);
+      return `export function assert${name}<T>(value: NotPromise<T>): ${typeName} {
+  assertConforms(value, ${check}, ${literal(name)}${
+        redaction !== undefined ? `, undefined, undefined, ${redaction}` : ''
+      });
+  return value as unknown as ${typeName};
+}
+
+export function is${name}(value: unknown): value is ${typeName} {
+  return ${matches}(value, false);
+}
+
+export function parse${name}(value: unknown): ParseResult<${typeName}> {
+  return parseResult(() => assert${name}(value));
+}`;
+    })
+    .concat(
+      allCheckableTypes(schema).map(type => {
+        const name = type.name as string;
+        const reference: Type = {
+          kind: 'reference-type',
+          referencedTypeName: name,
+        };
+        const check = checkFunction(reference, {});
+        const matches = checkFunction(reference, { predicate: true });
+        const typeJson = mentionsTypeString(type)
+          ? literal(JSON.stringify(type, null, 2))
+          : undefined;
+        const redaction = redactionOf(type);
+        const optionalArgs =
+          redaction !== undefined
+            ? [typeJson ?? 'undefined', redaction]
+            : typeJson !== undefined
+            ? [typeJson]
+            : [];
+        return `export function assert${name}<T>(value: NotPromise<T>, options?: StandaloneCheckOptions): ${name} {
+  assertConforms(value, ${check}, ${literal(
+          typeToShortString(type, '_TYPE_')
+        )}, options${optionalArgs.map(arg => `, ${arg}`).join('')});
+  return value as unknown as ${name};
+}
+
+export function is${name}(value: unknown, options?: StandaloneCheckOptions): value is ${name} {
+  return matchesWithLimits(value, ${matches}, options);
+}
+
+export function parse${name}(value: unknown, options?: StandaloneCheckOptions): ParseResult<${name}> {
+  return parseResult(() => assert${name}(value, options));
+}`;
+      })
+    );
+
+  const propertiesOfType = `export function propertiesOfType(typeName: ${allCheckableTypes(
+    schema
+  )
+    .map(type => literal(type.name))
+    .join(' | ')}): string[] {
+  switch (typeName) {
+${allCheckableTypes(schema)
+  .map(type => {
+    try {
+      return `    case ${literal(type.name)}:
+      return ${literal(computePropertiesOfType(schema, type))};`;
+    } catch (e) {
+      return `    case ${literal(type.name)}:
+      throw new Error(${literal((e as Error).message)});`;
+    }
+  })
+  .join('\n')}
+  }
+}`;
+
+  const validatorImports = (module: string, names: string[]) =>
+    names.length == 0
+      ? ''
+      : `import { ${names
+          .map(name => `validate${name}`)
+          .join(', ')} } from '${pathToSharedFromSchema(module)}';\n`;
+  const validators = [...usedValidators].sort();
+  return `import type { CheckLimits, CheckOptions, NotPromise } from '${pathToSharedFromSchema(
+    'check-type'
+  )}';
+import { CheckError, CheckErrorCode, ParseResult, TypecheckingError, UnionMemberAttempt, parseResult, redactsAllValues, unionMismatchMessage } from '${pathToSharedFromSchema(
+    'typechecking-error'
+  )}';
+${
+  usesRegisteredSpecialTypes
+    ? `import { registeredSpecialType } from '${pathToSharedFromSchema(
+        'special-types'
+      )}';\n`
+    : ''
+}${validatorImports(
+    'validators',
+    validators.filter(name => !name.startsWith('Temporal'))
+  )}${validatorImports(
+    'temporal',
+    validators.filter(name => name.startsWith('Temporal'))
+  )}
+// Reporting all errors, and the node and time limits, are only supported by the
+// interpreted functions.
+type StandaloneCheckOptions = Pick<CheckOptions, 'strict' | 'fullUnionErrors'> & {
+  limits?: Pick<CheckLimits, 'maxDepth' | 'maxArrayLength' | 'maxStringLength'>;
+};
+
+${PRELUDE}
+
+${constants.join('\n')}
+
+${functions.join('\n\n')}
+
+${propertiesOfType}
+
+${asserts.join('\n\n')}
+`;
+}
@@ -4,14 +4,22 @@
 // Most of the code is based on examples from https://github.com/microsoft/TypeScript/wiki/Using-the-Compiler-API.
 
 import * as ts from 'typescript';
-import { SPECIAL_TYPES } from '../../shared/check-type';
-import { assertNonNull } from '../../shared/language';
+import path from 'path';
+import { SPECIAL_NUMBER_TYPES, SPECIAL_TYPES } from '../../shared/special-types';
+import { assertNonNull, objectToJson } from '../../shared/language';
+import { checkValueAgainstType } from '../../shared/check-type';
 import {
+  Constraints,
+  Discriminant,
   Field,
+  InstantiationType,
+  InterfaceType,
   ReferenceType,
   resolveType,
+  TupleElement,
   Type,
   Schema,
+  UnionType,
   typeToString,
   isEnum,
 } from '../../shared/type-definitions';
@@ -33,8 +41,31 @@ export function visitAllTypes(
     switch (type.kind) {
       case 'array':
       case 'partial':
+      case 'required':
+      case 'non-nullable':
         recurseOnType(type.elementType);
         break;
+      case 'pick':
+        recurseOnType(type.base);
+        break;
+      case 'exclude':
+        recurseOnType(type.base);
+        recurseOnType(type.excludedType);
+        break;
+      case 'extract':
+        recurseOnType(type.base);
+        recurseOnType(type.extractedType);
+        break;
+      case 'tuple':
+        for (const element of type.elements) {
+          recurseOnType(element.type);
+        }
+        break;
+      case 'template-literal':
+        for (const span of type.spans) {
+          recurseOnType(span.type);
+        }
+        break;
       case 'mapped':
         recurseOnType(type.mapFrom);
         recurseOnType(type.mapTo);
@@ -57,8 +88,21 @@ export function visitAllTypes(
           recurseOnType(heritage);
         }
         break;
+      case 'generic':
+        for (const parameter of type.typeParameters) {
+          if (parameter.default !== undefined) recurseOnType(parameter.default);
+        }
+        recurseOnType(type.body);
+        break;
+      case 'instantiation':
+        for (const argument of type.typeArguments) {
+          recurseOnType(argument);
+        }
+        break;
       // Non-recursive cases:
       case 'reference-type':
+      case 'type-parameter':
+      case 'enum':
       case 'boolean':
       case 'number':
       case 'null':
@@ -80,25 +124,148 @@ export function visitAllTypes(
   }
 }
 
-function unionKinds(types: Schema, members: Type[]): string[] | undefined {
-  const result: string[] = [];
+// The discriminant of a union whose members are all interfaces with a required literal
+// field that has a different value in each member. The given field (from a
+// `@discriminant` JSDoc tag) has to be such a field, and otherwise 'kind' is preferred over
+// the other fields of the first member.
+function unionDiscriminant(
+  types: Schema,
+  members: Type[],
+  field?: string
+): Discriminant | undefined {
+  const interfaces: InterfaceType[] = [];
   for (const member of members) {
     const resolvedMember = resolveType(types, member);
-    if (resolvedMember.kind === 'interface') {
-      const kindField = resolvedMember.fields.find(
-        field =>
-          field.name === 'kind' &&
-          !field.optional &&
-          field.type.kind == 'string-literal'
-      );
-      if (kindField !== undefined && kindField.type.kind == 'string-literal') {
-        result.push(kindField.type.value);
-        continue;
+    if (resolvedMember.kind !== 'interface') return undefined;
+    interfaces.push(resolvedMember);
+  }
+  if (interfaces.length == 0) return undefined;
+  const discriminant = (name: string): Discriminant | undefined => {
+    const result: Discriminant = { field: name, members: {} };
+    for (let i = 0; i < interfaces.length; i++) {
+      const literal = interfaces[i].fields.find(
+        field => field.name === name && !field.optional
+      )?.type;
+      if (
+        literal?.kind !== 'string-literal' &&
+        literal?.kind !== 'number-literal' &&
+        literal?.kind !== 'boolean-literal'
+      ) {
+        return undefined;
       }
+      const key = JSON.stringify(literal.value);
+      if (key in result.members) return undefined;
+      result.members[key] = i;
     }
-    return undefined;
+    return result;
+  };
+  if (field !== undefined) return discriminant(field);
+  return (
+    discriminant('kind') ??
+    interfaces[0].fields
+      .map(field => discriminant(field.name))
+      .find(result => result !== undefined)
+  );
+}
+
+interface ParseContext {
+  result: Schema;
+  checker: ts.TypeChecker;
+  root: string;
+  // The declaration of each type in the schema, used to report errors in that type.
+  declarations: Map<string, ts.Node>;
+  // The unions with a `@discriminant` JSDoc tag, and the field it names.
+  discriminantTags: Map<UnionType, { tag: ts.JSDocTag; field: string }>;
+  diagnostics: ParseDiagnostic[];
+}
+
+export interface ParseDiagnostic {
+  // Path of the file, relative to the current working directory.
+  file: string;
+  // 1-based line and column.
+  line: number;
+  column: number;
+  message: string;
+  // The source line(s) of the offending node, with the node underlined.
+  snippet: string;
+}
+
+// An error in the types we are parsing (as opposed to a bug in this code), thrown with
+// the node that caused it.
+class SchemaParseError extends Error {
+  constructor(public readonly node: ts.Node, message: string) {
+    super(message);
   }
-  return result;
+}
+
+// Thrown by parseTypes with all errors found in the program, sorted by position.
+export class SchemaParseErrors extends Error {
+  public readonly diagnostics: ParseDiagnostic[];
+  constructor(diagnostics: ParseDiagnostic[]) {
+    const sorted = [...diagnostics].sort(
+      (a, b) =>
+        a.file.localeCompare(b.file) || a.line - b.line || a.column - b.column
+    );
+    super(formatDiagnostics(sorted));
+    this.diagnostics = sorted;
+  }
+}
+
+// Errors that don't know their node (e.g. a type that is used but not defined) are
+// reported at the declaration that was being parsed.
+function diagnosticFromError(e: unknown, declaration: ts.Node): ParseDiagnostic {
+  const node = e instanceof SchemaParseError ? e.node : declaration;
+  const sourceFile = node.getSourceFile();
+  const start = sourceFile.getLineAndCharacterOfPosition(node.getStart());
+  const end = sourceFile.getLineAndCharacterOfPosition(node.getEnd());
+  const lines = sourceFile.text.split(/\r?\n/);
+  const snippet: string[] = [];
+  // Only show the first few lines of long nodes.
+  const lastLine = Math.min(end.line, start.line + 2);
+  for (let line = start.line; line <= lastLine; line++) {
+    const text = lines[line];
+    const from = line == start.line ? start.character : text.search(/\S|$/);
+    const to = line == end.line ? end.character : text.length;
+    const lineNumber = `${line + 1}`;
+    snippet.push(`${lineNumber} ${text}`);
+    snippet.push(
+      `${' '.repeat(lineNumber.length + 1 + from)}${'~'.repeat(
+        Math.max(1, to - from)
+      )}`
+    );
+  }
+  return {
+    file: path.relative(process.cwd(), sourceFile.fileName),
+    line: start.line + 1,
+    column: start.character + 1,
+    message: e instanceof Error ? e.message : String(e),
+    snippet: snippet.join('\n'),
+  };
+}
+
+// Formats diagnostics the way tsc does, followed by a summary.
+export function formatDiagnostics(diagnostics: ParseDiagnostic[]): string {
+  const files = new Set(diagnostics.map(d => d.file));
+  const errors = diagnostics.length == 1 ? 'error' : 'errors';
+  const summary =
+    files.size == 1
+      ? `Found ${diagnostics.length} ${errors} in ${[...files][0]}.`
+      : `Found ${diagnostics.length} ${errors} in ${files.size} files.`;
+  return [
+    ...diagnostics.map(
+      d => `${d.file}:${d.line}:${d.column} - error: ${d.message}\n\n${d.snippet}\n`
+    ),
+    summary,
+  ].join('\n');
+}
+
+// The name of a syntax kind, e.g. `FunctionType` instead of 184.
+function syntaxKindName(kind: ts.SyntaxKind): string {
+  // Some kinds have several names, e.g. `FirstTypeNode` is an alias for `TypePredicate`.
+  const names = Object.entries(ts.SyntaxKind)
+    .filter(([, value]) => value === kind)
+    .map(([name]) => name);
+  return names.find(name => !/^(First|Last)[A-Z]/.test(name)) ?? names[0] ?? `${kind}`;
 }
 
 function nodeToType(
@@ -125,6 +292,14 @@ function nodeToType(
       filename,
     };
   }
+  if (ts.isTupleTypeNode(node)) {
+    return {
+      kind: 'tuple',
+      elements: node.elements.map(element => tsTupleMemberToElement(checker, element)),
+      name,
+      filename,
+    };
+  }
   if (ts.isUnionTypeNode(node)) {
     const members = node.types.map(value => nodeToType(checker, value));
     return {
@@ -150,10 +325,23 @@ function nodeToType(
       filename,
     };
   }
+  if (ts.isTemplateLiteralTypeNode(node)) {
+    return {
+      kind: 'template-literal',
+      head: node.head.text,
+      spans: node.templateSpans.map(span => ({
+        type: nodeToType(checker, span.type),
+        literal: span.literal.text,
+      })),
+      name,
+      filename,
+    };
+  }
   if (ts.isIndexedAccessTypeNode(node)) {
     return tsTypeToType(
       checker,
       checker.getTypeFromTypeNode(node),
+      node,
       name,
       filename
     );
@@ -202,7 +390,10 @@ function nodeToType(
       const omit = nodeToType(checker, node.typeArguments[1]);
       const fields = isEnum(omit);
       if (!fields) {
-        throw new Error(`Only Omit<T, K> is supported where K is a string literal or union of string literals.`);
+        throw new SchemaParseError(
+          node,
+          `Only Omit<T, K> is supported where K is a string literal or union of string literals.`
+        );
       }
       return {
         kind: 'omit',
@@ -212,21 +403,135 @@ function nodeToType(
         filename,
       };
     }
+    if (
+      node.typeName.getText() === 'Pick' &&
+      node.typeArguments?.length == 2
+    ) {
+      const base = nodeToType(checker, node.typeArguments[0]);
+      const pick = nodeToType(checker, node.typeArguments[1]);
+      const fields = isEnum(pick);
+      if (!fields) {
+        throw new SchemaParseError(
+          node,
+          `Only Pick<T, K> is supported where K is a string literal or union of string literals.`
+        );
+      }
+      return {
+        kind: 'pick',
+        base,
+        pickedFields: fields,
+        name,
+        filename,
+      };
+    }
+    if (
+      node.typeName.getText() === 'Required' &&
+      node.typeArguments?.length == 1
+    ) {
+      return {
+        kind: 'required',
+        elementType: nodeToType(checker, node.typeArguments[0]),
+        name,
+        filename,
+      };
+    }
+    if (
+      node.typeName.getText() === 'NonNullable' &&
+      node.typeArguments?.length == 1
+    ) {
+      return {
+        kind: 'non-nullable',
+        elementType: nodeToType(checker, node.typeArguments[0]),
+        name,
+        filename,
+      };
+    }
+    // Readonly<T> is indistinguishable from T at runtime.
+    if (
+      node.typeName.getText() === 'Readonly' &&
+      node.typeArguments?.length == 1
+    ) {
+      return nodeToType(checker, node.typeArguments[0], name, filename);
+    }
+    if (
+      node.typeName.getText() === 'Exclude' &&
+      node.typeArguments?.length == 2
+    ) {
+      return {
+        kind: 'exclude',
+        base: nodeToType(checker, node.typeArguments[0]),
+        excludedType: nodeToType(checker, node.typeArguments[1]),
+        name,
+        filename,
+      };
+    }
+    if (
+      node.typeName.getText() === 'Extract' &&
+      node.typeArguments?.length == 2
+    ) {
+      return {
+        kind: 'extract',
+        base: nodeToType(checker, node.typeArguments[0]),
+        extractedType: nodeToType(checker, node.typeArguments[1]),
+        name,
+        filename,
+      };
+    }
     if (node.typeArguments) {
-      throw new Error(
-        `Type arguments are not yet supported: ${node.getText()} / kind = ${
-          node.kind
-        }`
-      );
+      // Generic types that are not part of the schema (e.g. ReturnType<T> from the
+      // standard library) are resolved by the type-checker.
+      if (!isSchemaTypeReference(checker, node)) {
+        return tsTypeToType(
+          checker,
+          checker.getTypeFromTypeNode(node),
+          node,
+          name,
+          filename
+        );
+      }
+      return {
+        kind: 'instantiation',
+        genericTypeName: node.typeName.getText(),
+        typeArguments: node.typeArguments.map(value =>
+          nodeToType(checker, value)
+        ),
+        name,
+        filename,
+      };
+    }
+    const enumMember = enumMemberReference(checker, node);
+    if (enumMember !== undefined) {
+      const value = enumMemberValue(checker, enumMember);
+      return typeof value === 'string'
+        ? { kind: 'string-literal', value, name, filename }
+        : { kind: 'number-literal', value, name, filename };
+    }
+    if (isTypeParameterReference(checker, node)) {
+      return {
+        kind: 'type-parameter',
+        parameterName: node.typeName.getText(),
+        name,
+        filename,
+      };
     }
-    if (SPECIAL_TYPES.includes(node.typeName.getText())) {
+    const specialKind = specialTypeKind(node.typeName.getText());
+    if (specialKind !== undefined) {
       return {
-        kind: 'string',
+        kind: specialKind,
         specialName: node.typeName.getText(),
         name,
         filename,
       };
     }
+    const brandedAlias = brandedAliasReference(checker, node);
+    if (brandedAlias !== undefined) {
+      return {
+        kind: brandedAlias.kind,
+        specialName: brandedAlias.brand,
+        name,
+        filename,
+      };
+    }
     return {
       kind: 'reference-type',
       referencedTypeName: node.typeName.getText(),
@@ -266,14 +571,7 @@ function nodeToType(
     };
   }
   if (ts.isTypeLiteralNode(node) || ts.isInterfaceDeclaration(node)) {
-    if (ts.isInterfaceDeclaration(node) && Boolean(node.typeParameters)) {
-      throw new Error(
-        `Type arguments are not yet supported: ${node.getText()} / kind = ${
-          node.kind
-        }`
-      );
-    }
-    const heritage: ReferenceType[] = [];
+    const heritage: Array<ReferenceType | InstantiationType> = [];
     if (
       ts.isInterfaceDeclaration(node) &&
       node.heritageClauses !== undefined &&
@@ -283,23 +581,36 @@ function nodeToType(
         for (const heritageClauseType of heritageClause.types) {
           const h = heritageClauseType.expression;
           if (!ts.isIdentifier(h)) {
-            console.log(node.getFullText());
-            throw new Error(
-              `heritage clause can only be an identifier for now, found kind = ${h.kind}`
+            throw new SchemaParseError(
+              h,
+              `Heritage clause can only be an identifier for now, found ${syntaxKindName(
+                h.kind
+              )}.`
             );
           }
-          heritage.push({
-            kind: 'reference-type',
-            referencedTypeName: h.text,
-            filename,
-          });
+          if (heritageClauseType.typeArguments !== undefined) {
+            heritage.push({
+              kind: 'instantiation',
+              genericTypeName: h.text,
+              typeArguments: heritageClauseType.typeArguments.map(value =>
+                nodeToType(checker, value)
+              ),
+              filename,
+            });
+          } else {
+            heritage.push({
+              kind: 'reference-type',
+              referencedTypeName: h.text,
+              filename,
+            });
+          }
         }
       }
     }
     // Is this index signature?
     if (node.members.length === 1 && ts.isIndexSignatureDeclaration(node.members[0])) {
       if (heritage.length > 0) {
-        throw new Error(`Index signature cannot have heritage.`);
+        throw new SchemaParseError(node, `Index signature cannot have heritage.`);
       }
       return {
         kind: 'index-signature',
@@ -318,25 +629,16 @@ function nodeToType(
     };
   }
   if (ts.isIntersectionTypeNode(node)) {
-    // Is this a 'branded primitive' (https://github.com/Microsoft/TypeScript/wiki/FAQ#can-i-make-a-type-alias-nominal)?
-    if (node.types.length == 2) {
-      const a = node.types[0];
-      const b = node.types[1];
-      // First type should be a string.
-      if (a.kind == ts.SyntaxKind.StringKeyword) {
-        // Second type should be a type literal with one unique member.
-        if (
-          ts.isTypeLiteralNode(b) &&
-          b.members.length === 1 &&
-          assertNonNull(b.members[0].name).getText().startsWith('_')
-        ) {
-          return {
-            kind: 'string',
-            name,
-            filename,
-          };
-        }
-      }
+    const branded = brandedPrimitive(node);
+    if (branded !== undefined) {
+      // Named brands are validated by their name (e.g. OrderId), inline ones by the name
+      // of the brand.
+      return {
+        kind: branded.kind,
+        specialName: name ?? branded.brand,
+        name,
+        filename,
+      };
     }
   }
   if (ts.isIntersectionTypeNode(node)) {
@@ -366,15 +668,32 @@ function nodeToType(
       filename,
     };
   }
+  // Mapped types over keyof (e.g. `{ [K in keyof T]: boolean }`) are resolved by the
+  // type-checker, unless they still depend on type parameters.
+  if (
+    ts.isMappedTypeNode(node) &&
+    node.typeParameter.constraint !== undefined &&
+    ts.isTypeOperatorNode(node.typeParameter.constraint) &&
+    node.typeParameter.constraint.operator == ts.SyntaxKind.KeyOfKeyword &&
+    !referencesTypeParameter(checker, node.typeParameter.constraint)
+  ) {
+    return tsTypeToType(
+      checker,
+      checker.getTypeFromTypeNode(node),
+      node,
+      name,
+      filename
+    );
+  }
   if (ts.isMappedTypeNode(node)) {
     if (node.members?.length !== 0) {
-      throw new Error(`Unsupported mapped type with members.`);
+      throw new SchemaParseError(node, `Unsupported mapped type with members.`);
     }
     if (node.type === undefined) {
-      throw new Error(`Unsupported mapped type with missing type.`);
+      throw new SchemaParseError(node, `Unsupported mapped type with missing type.`);
     }
     if (node.typeParameter.constraint === undefined) {
-      throw new Error(`Unsupported mapped type with missing constraint.`);
+      throw new SchemaParseError(node, `Unsupported mapped type with missing constraint.`);
     }
     return {
       kind: 'mapped',
@@ -385,30 +704,233 @@ function nodeToType(
       mapFrom: nodeToType(checker, node.typeParameter.constraint),
     };
   }
-  throw Error(`Unsupported node: ${node.getText()} / kind = ${node.kind}`);
+  // Anything else (e.g. `typeof X` or conditional types) is resolved by the type-checker.
+  if (ts.isTypeNode(node)) {
+    return tsTypeToType(
+      checker,
+      checker.getTypeFromTypeNode(node),
+      node,
+      name,
+      filename
+    );
+  }
+  throw new SchemaParseError(
+    node,
+    `Unsupported syntax: ${syntaxKindName(node.kind)}.`
+  );
+}
+
+// Is this a reference to a type that is declared with a @check-type annotation (and thus
+// will be part of the schema)?
+function isSchemaTypeReference(
+  checker: ts.TypeChecker,
+  node: ts.TypeReferenceNode
+): boolean {
+  let symbol = checker.getSymbolAtLocation(node.typeName);
+  if (symbol !== undefined && symbol.flags & ts.SymbolFlags.Alias) {
+    symbol = checker.getAliasedSymbol(symbol);
+  }
+  return Boolean(symbol?.declarations?.some(isCheckTypeDeclaration));
+}
+
+interface BrandedPrimitive {
+  kind: 'string' | 'number' | 'boolean';
+  // The name of the brand, e.g. OrderId for `string & { _OrderId: unknown }`.
+  brand: string;
 }
 
-// We generally operate on the syntax nodes directly, but for index access types,
-// we want the type-checkers help to resolve that first.
-// We don't always use the type-checker, because walking the nodes is easier, e.g.
-// there doesn't seem to be a type for arrays, but node's have ArrayTypeNode.
+// The primitive type of a built-in special type, e.g. number for Integer.
+function specialTypeKind(name: string): 'string' | 'number' | undefined {
+  if (SPECIAL_NUMBER_TYPES.includes(name)) return 'number';
+  if (SPECIAL_TYPES.includes(name)) return 'string';
+  return undefined;
+}
+
+// Is this a 'branded primitive' (https://github.com/Microsoft/TypeScript/wiki/FAQ#can-i-make-a-type-alias-nominal)
+// like `string & { _OrderId: unknown }` or `number & { _Cents: unknown }`?
+function brandedPrimitive(
+  node: ts.IntersectionTypeNode
+): BrandedPrimitive | undefined {
+  if (node.types.length != 2) return undefined;
+  const [a, b] = node.types;
+  const kind =
+    a.kind == ts.SyntaxKind.StringKeyword
+      ? 'string'
+      : a.kind == ts.SyntaxKind.NumberKeyword
+      ? 'number'
+      : a.kind == ts.SyntaxKind.BooleanKeyword
+      ? 'boolean'
+      : undefined;
+  // First type should be a primitive, the second a type literal with one unique member.
+  if (kind !== undefined && ts.isTypeLiteralNode(b) && b.members.length === 1) {
+    const member = assertNonNull(b.members[0].name).getText();
+    if (member.startsWith('_')) return { kind, brand: member.slice(1) };
+  }
+  return undefined;
+}
+
+// Is this a reference to a branded primitive type that is not part of the schema (e.g.
+// because it is declared in a file without @check-type annotations)? If so, the brand is
+// the name of the type.
+function brandedAliasReference(
+  checker: ts.TypeChecker,
+  node: ts.TypeReferenceNode
+): BrandedPrimitive | undefined {
+  if (isSchemaTypeReference(checker, node)) return undefined;
+  let symbol = checker.getSymbolAtLocation(node.typeName);
+  if (symbol !== undefined && symbol.flags & ts.SymbolFlags.Alias) {
+    symbol = checker.getAliasedSymbol(symbol);
+  }
+  for (const declaration of symbol?.declarations ?? []) {
+    if (
+      ts.isTypeAliasDeclaration(declaration) &&
+      declaration.typeParameters === undefined &&
+      ts.isIntersectionTypeNode(declaration.type)
+    ) {
+      const branded = brandedPrimitive(declaration.type);
+      if (branded !== undefined) {
+        return { kind: branded.kind, brand: declaration.name.text };
+      }
+    }
+  }
+  return undefined;
+}
+
+// Is this a reference to a type parameter of a generic type, e.g. the `T` in
+// `type Paginated<T> = { items: T[] }`?
+function isTypeParameterReference(
+  checker: ts.TypeChecker,
+  node: ts.TypeReferenceNode
+): boolean {
+  const symbol = checker.getSymbolAtLocation(node.typeName);
+  return (
+    symbol !== undefined && (symbol.flags & ts.SymbolFlags.TypeParameter) !== 0
+  );
+}
+
+// Is this a reference to a member of an enum, e.g. `Color.Red`?
+function enumMemberReference(
+  checker: ts.TypeChecker,
+  node: ts.TypeReferenceNode
+): ts.EnumMember | undefined {
+  const symbol = checker.getSymbolAtLocation(node.typeName);
+  if (symbol === undefined || (symbol.flags & ts.SymbolFlags.EnumMember) === 0) {
+    return undefined;
+  }
+  return symbol.declarations?.find(ts.isEnumMember);
+}
+
+function enumMemberValue(
+  checker: ts.TypeChecker,
+  member: ts.EnumMember
+): string | number {
+  const value = checker.getConstantValue(member);
+  if (value === undefined) {
+    throw new SchemaParseError(
+      member,
+      `Only enum members with constant values are supported.`
+    );
+  }
+  return value;
+}
+
+function enumDeclarationToType(
+  checker: ts.TypeChecker,
+  node: ts.EnumDeclaration,
+  name: string,
+  filename: string
+): Type {
+  return {
+    kind: 'enum',
+    members: node.members.map(member => ({
+      name: member.name.getText(),
+      value: enumMemberValue(checker, member),
+    })),
+    name,
+    filename,
+  };
+}
+
+// We generally operate on the syntax nodes directly, but for syntax we don't handle
+// (e.g. indexed access types, `typeof`, conditional types), we fall back to the
+// type-checker, which has already resolved those to a plain type.
+// We don't always use the type-checker, because walking the nodes is easier and keeps
+// more information, e.g. the names of referenced types and special types.
 function tsTypeToType(
   checker: ts.TypeChecker,
   tsType: ts.Type,
+  location: ts.Node,
   name: string | undefined,
-  filename: string | undefined
+  filename: string | undefined,
+  seen: ts.Type[] = []
 ): Type {
-  if (tsType.isUnion()) {
-    const members = tsType.types.map(t =>
-      tsTypeToType(checker, t, undefined, filename)
+  const recurse = (t: ts.Type) =>
+    tsTypeToType(checker, t, location, undefined, filename, [...seen, tsType]);
+  const flags = tsType.flags;
+
+  const aliasName = tsType.aliasSymbol?.getName();
+  const specialKind =
+    aliasName !== undefined ? specialTypeKind(aliasName) : undefined;
+  if (specialKind !== undefined) {
+    return { kind: specialKind, specialName: aliasName, name, filename };
+  }
+  // Refer to types that are part of the schema by name (this also handles recursive types).
+  const namedSymbol = schemaSymbolOfType(tsType);
+  if (
+    namedSymbol !== undefined &&
+    namedSymbol.getName() !== name &&
+    (seen.includes(tsType) || namedSymbol.declarations?.some(isCheckTypeDeclaration))
+  ) {
+    return {
+      kind: 'reference-type',
+      referencedTypeName: namedSymbol.getName(),
+      name,
+      filename,
+    };
+  }
+  if (seen.includes(tsType)) {
+    throw new SchemaParseError(
+      location,
+      `Recursive types are only supported if they are part of the schema: ${checker.typeToString(
+        tsType
+      )}`
+    );
+  }
+
+  // any is also the type of e.g. unresolved imports, so only unknown accepts every value.
+  if (flags & ts.TypeFlags.Any) {
+    throw new SchemaParseError(
+      location,
+      `Type any is not supported, use unknown to accept any value.`
     );
+  }
+  if (flags & ts.TypeFlags.Unknown) {
+    return { kind: 'unknown', name, filename };
+  }
+  if (flags & ts.TypeFlags.String) {
+    return { kind: 'string', name, filename };
+  }
+  if (flags & ts.TypeFlags.Number) {
+    return { kind: 'number', name, filename };
+  }
+  // Note: boolean is also a union (of true and false), so this needs to come first.
+  if (flags & ts.TypeFlags.Boolean) {
+    return { kind: 'boolean', name, filename };
+  }
+  if (flags & ts.TypeFlags.BooleanLiteral) {
     return {
-      kind: 'union',
-      unionMembers: members.sort(compareTypes),
+      kind: 'boolean-literal',
+      value: checker.typeToString(tsType) === 'true',
       name,
       filename,
     };
   }
+  if (flags & ts.TypeFlags.Null) {
+    return { kind: 'null', name, filename };
+  }
+  if (flags & (ts.TypeFlags.Undefined | ts.TypeFlags.Void)) {
+    return { kind: 'undefined', name, filename };
+  }
   if (tsType.isStringLiteral()) {
     return {
       kind: 'string-literal',
@@ -425,39 +947,448 @@ function tsTypeToType(
       filename,
     };
   }
-  throw new Error(
-    `Type not supported: ${checker.typeToString(tsType)} in ${filename}`
+  if (flags & ts.TypeFlags.TemplateLiteral) {
+    const template = tsType as ts.TemplateLiteralType;
+    return {
+      kind: 'template-literal',
+      head: template.texts[0],
+      spans: template.types.map((t, i) => ({
+        type: recurse(t),
+        literal: template.texts[i + 1],
+      })),
+      name,
+      filename,
+    };
+  }
+  if (flags & ts.TypeFlags.TypeParameter) {
+    return {
+      kind: 'type-parameter',
+      parameterName: assertNonNull(tsType.getSymbol()).getName(),
+      name,
+      filename,
+    };
+  }
+  if (tsType.isUnion()) {
+    let members = tsType.types.map(recurse);
+    // A branded boolean is split into `(true & Brand) | (false & Brand)`.
+    const [first, second] = members;
+    if (
+      members.length == 2 &&
+      first.kind == 'boolean' &&
+      second.kind == 'boolean' &&
+      first.specialName !== undefined &&
+      first.specialName === second.specialName
+    ) {
+      return {
+        kind: 'boolean',
+        specialName: aliasName ?? first.specialName,
+        name,
+        filename,
+      };
+    }
+    // The type-checker splits boolean into true | false, we merge them back.
+    const isBooleanLiteral = (t: Type) => t.kind === 'boolean-literal';
+    if (members.filter(isBooleanLiteral).length == 2) {
+      members = [
+        ...members.filter(t => !isBooleanLiteral(t)),
+        { kind: 'boolean' },
+      ];
+      if (members.length == 1) return { ...members[0], name, filename };
+    }
+    return {
+      kind: 'union',
+      unionMembers: members.sort(compareTypes),
+      name,
+      filename,
+    };
+  }
+  if (tsType.isIntersection()) {
+    const branded = brandedPrimitiveType(checker, tsType);
+    if (branded !== undefined) {
+      return {
+        kind: branded.kind,
+        specialName: aliasName ?? branded.brand,
+        name,
+        filename,
+      };
+    }
+    return {
+      kind: 'intersection',
+      intersectionMembers: tsType.types.map(recurse),
+      name,
+      filename,
+    };
+  }
+  if (flags & ts.TypeFlags.Object) {
+    const objectType = tsType as ts.ObjectType;
+    if (objectType.objectFlags & ts.ObjectFlags.Reference) {
+      const reference = objectType as ts.TypeReference;
+      const typeArguments = checker.getTypeArguments(reference);
+      if (reference.target.objectFlags & ts.ObjectFlags.Tuple) {
+        const tuple = reference.target as ts.TupleType;
+        return {
+          kind: 'tuple',
+          elements: tuple.elementFlags.map((elementFlags, i) => {
+            const declaration = tuple.labeledElementDeclarations?.[i];
+            const elementType = recurse(typeArguments[i]);
+            return {
+              name: declaration !== undefined ? declaration.name.getText() : undefined,
+              type:
+                elementFlags & ts.ElementFlags.Rest
+                  ? { kind: 'array', elementType }
+                  : elementType,
+              optional: (elementFlags & ts.ElementFlags.Optional) !== 0,
+              rest: (elementFlags & ts.ElementFlags.Variable) !== 0,
+            };
+          }),
+          name,
+          filename,
+        };
+      }
+      const targetName = reference.target.getSymbol()?.getName();
+      if (
+        (targetName === 'Array' || targetName === 'ReadonlyArray') &&
+        typeArguments.length == 1
+      ) {
+        return {
+          kind: 'array',
+          elementType: recurse(typeArguments[0]),
+          name,
+          filename,
+        };
+      }
+    }
+    if (
+      checker.getSignaturesOfType(tsType, ts.SignatureKind.Call).length > 0 ||
+      checker.getSignaturesOfType(tsType, ts.SignatureKind.Construct).length > 0
+    ) {
+      throw new SchemaParseError(
+        location,
+        `Function types are not supported: ${checker.typeToString(tsType)}`
+      );
+    }
+    const fields: Field[] = checker.getPropertiesOfType(tsType).map(property => {
+      const optional = (property.flags & ts.SymbolFlags.Optional) !== 0;
+      const type = recurse(checker.getTypeOfSymbolAtLocation(property, location));
+      return withSensitive(
+        withDefault(
+          {
+            name: property.getName(),
+            type: withConstraints(
+              optional ? withoutUndefined(type) : type,
+              property.valueDeclaration !== undefined
+                ? jsDocConstraints(property.valueDeclaration)
+                : undefined
+            ),
+            optional,
+          },
+          property.valueDeclaration
+        ),
+        property.valueDeclaration
+      );
+    });
+    const indexSignatures: Type[] = checker
+      .getIndexInfosOfType(tsType)
+      .map(info => ({
+        kind: 'index-signature',
+        keyType: recurse(info.keyType),
+        valueType: recurse(info.type),
+      }));
+    if (indexSignatures.length == 1 && fields.length == 0) {
+      return { ...indexSignatures[0], name, filename };
+    }
+    const interfaceType: Type = {
+      kind: 'interface',
+      fields,
+      heritage: [],
+    };
+    if (indexSignatures.length > 0) {
+      return {
+        kind: 'intersection',
+        intersectionMembers: [interfaceType, ...indexSignatures],
+        name,
+        filename,
+      };
+    }
+    return { ...interfaceType, name, filename };
+  }
+  throw new SchemaParseError(
+    location,
+    `Type not supported: ${checker.typeToString(tsType)}`
+  );
+}
+
+// Same as brandedPrimitive, but for a type resolved by the type-checker (which sees a
+// branded boolean as `true & Brand` or `false & Brand`).
+function brandedPrimitiveType(
+  checker: ts.TypeChecker,
+  tsType: ts.IntersectionType
+): BrandedPrimitive | undefined {
+  if (tsType.types.length != 2) return undefined;
+  const [a, b] = tsType.types;
+  const kind =
+    a.flags & ts.TypeFlags.String
+      ? 'string'
+      : a.flags & ts.TypeFlags.Number
+      ? 'number'
+      : a.flags & ts.TypeFlags.BooleanLiteral
+      ? 'boolean'
+      : undefined;
+  if (kind !== undefined && b.flags & ts.TypeFlags.Object) {
+    const properties = checker.getPropertiesOfType(b);
+    if (properties.length === 1 && properties[0].getName().startsWith('_')) {
+      return { kind, brand: properties[0].getName().slice(1) };
+    }
+  }
+  return undefined;
+}
+
+// Returns the symbol of a named type (interface, enum, or non-generic type alias), if
+// the type has one.
+function schemaSymbolOfType(tsType: ts.Type): ts.Symbol | undefined {
+  if (tsType.aliasSymbol !== undefined) {
+    return tsType.aliasTypeArguments === undefined ? tsType.aliasSymbol : undefined;
+  }
+  const symbol = tsType.getSymbol();
+  if (
+    symbol !== undefined &&
+    symbol.flags & (ts.SymbolFlags.Interface | ts.SymbolFlags.Enum) &&
+    !(
+      tsType.flags & ts.TypeFlags.Object &&
+      (tsType as ts.ObjectType).objectFlags & ts.ObjectFlags.Reference &&
+      (tsType as ts.TypeReference).typeArguments?.length
+    )
+  ) {
+    return symbol;
+  }
+  return undefined;
+}
+
+function withoutUndefined(type: Type): Type {
+  if (type.kind !== 'union') return type;
+  const members = type.unionMembers.filter(member => member.kind !== 'undefined');
+  if (members.length == 1) return { ...members[0], name: type.name, filename: type.filename };
+  return { ...type, unionMembers: members };
+}
+
+// Does this node (or its children) refer to a type parameter?
+function referencesTypeParameter(checker: ts.TypeChecker, node: ts.Node): boolean {
+  if (ts.isTypeReferenceNode(node) && isTypeParameterReference(checker, node)) {
+    return true;
+  }
+  return Boolean(
+    ts.forEachChild(node, child => referencesTypeParameter(checker, child) || undefined)
   );
 }
 
 function tsMemberToField(checker: ts.TypeChecker, member: ts.Node): Field {
   if (ts.isPropertySignature(member)) {
+    return withSensitive(
+      withDefault(
+        {
+          name: member.name.getText(),
+          type: withConstraints(
+            nodeToType(checker, assertNonNull(member.type)),
+            jsDocConstraints(member)
+          ),
+          optional: member.questionToken !== undefined,
+        },
+        member
+      ),
+      member
+    );
+  }
+  throw new SchemaParseError(
+    member,
+    `Unsupported property declaration: ${syntaxKindName(member.kind)}.`
+  );
+}
+
+const NUMBER_CONSTRAINTS = [
+  'minLength',
+  'maxLength',
+  'minimum',
+  'maximum',
+  'minItems',
+  'maxItems',
+] as const;
+const FLAG_CONSTRAINTS = ['integer', 'uniqueItems'] as const;
+
+// Reads constraints from JSDoc tags such as `@maxLength 500` or `@integer`. Other tags
+// (e.g. `@deprecated`) are ignored.
+function jsDocConstraints(node: ts.Node): Constraints | undefined {
+  const result: Constraints = {};
+  for (const tag of ts.getJSDocTags(node)) {
+    const name = tag.tagName.text;
+    const text = (ts.getTextOfJSDocComment(tag.comment) ?? '').trim();
+    if ((NUMBER_CONSTRAINTS as readonly string[]).includes(name)) {
+      const value = Number(text);
+      if (text == '' || !Number.isFinite(value)) {
+        throw new SchemaParseError(
+          tag,
+          `@${name} requires a number, but got '${text}'.`
+        );
+      }
+      result[name as typeof NUMBER_CONSTRAINTS[number]] = value;
+    } else if ((FLAG_CONSTRAINTS as readonly string[]).includes(name)) {
+      if (text != '' && text != 'true' && text != 'false') {
+        throw new SchemaParseError(
+          tag,
+          `@${name} can only be true or false, but got '${text}'.`
+        );
+      }
+      result[name as typeof FLAG_CONSTRAINTS[number]] = text != 'false';
+    } else if (name == 'pattern') {
+      try {
+        new RegExp(text);
+      } catch (e) {
+        throw new SchemaParseError(
+          tag,
+          `@pattern requires a regular expression: ${(e as Error).message}`
+        );
+      }
+      result.pattern = text;
+    }
+  }
+  return Object.keys(result).length > 0 ? result : undefined;
+}
+
+// Reads the default value of an optional field from a `@default` JSDoc tag, which has to
+// be JSON (e.g. `@default 10` or `@default "asc"`). The value is checked against the type
+// of the field once all types are parsed.
+function withDefault(field: Field, node: ts.Node | undefined): Field {
+  if (node === undefined) return field;
+  const tag = ts.getJSDocTags(node).find(tag => tag.tagName.text == 'default');
+  if (tag === undefined) return field;
+  if (!field.optional) {
+    throw new SchemaParseError(
+      tag,
+      `@default is only supported on optional fields, but '${field.name}' is not optional.`
+    );
+  }
+  const text = (ts.getTextOfJSDocComment(tag.comment) ?? '').trim();
+  try {
+    return { ...field, default: JSON.parse(text) };
+  } catch (e) {
+    throw new SchemaParseError(
+      tag,
+      `@default requires a JSON value, but got '${text}'.`
+    );
+  }
+}
+
+// Marks fields with a `// @check-type:sensitive` annotation, whose values are redacted in
+// error messages.
+function withSensitive(field: Field, node: ts.Node | undefined): Field {
+  if (node === undefined || !leadingComments(node).includes(SENSITIVE_ANNOTATION)) {
+    return field;
+  }
+  return { ...field, sensitive: true };
+}
+
+function withConstraints(type: Type, constraints: Constraints | undefined): Type {
+  if (constraints === undefined) return type;
+  return { ...type, constraints: { ...type.constraints, ...constraints } };
+}
+
+function tsTupleMemberToElement(
+  checker: ts.TypeChecker,
+  member: ts.TypeNode
+): TupleElement {
+  if (ts.isNamedTupleMember(member)) {
     return {
       name: member.name.getText(),
-      type: nodeToType(checker, assertNonNull(member.type)),
+      type: nodeToType(checker, member.type),
       optional: member.questionToken !== undefined,
+      rest: member.dotDotDotToken !== undefined,
     };
   }
-  throw new Error(
-    `Unsupported property declaration: ${member.getText()} / ${member.kind}`
+  if (ts.isOptionalTypeNode(member)) {
+    return {
+      type: nodeToType(checker, member.type),
+      optional: true,
+      rest: false,
+    };
+  }
+  if (ts.isRestTypeNode(member)) {
+    return {
+      type: nodeToType(checker, member.type),
+      optional: false,
+      rest: true,
+    };
+  }
+  return {
+    type: nodeToType(checker, member),
+    optional: false,
+    rest: false,
+  };
+}
+
+const FILE_ANNOTATION = '// @check-type:entire-file\n';
+const NODE_ANNOTATION = '// @check-type\n';
+const IGNORE_CHANGES_ANNOTATION = '// @check-type:ignore-changes\n';
+const STRICT_ANNOTATION = '// @check-type:strict\n';
+const SENSITIVE_ANNOTATION = '// @check-type:sensitive\n';
+
+function leadingComments(node: ts.Node): string {
+  const sourceFile = node.getSourceFile().getFullText();
+  const commentRanges = ts.getLeadingCommentRanges(
+    sourceFile,
+    node.getFullStart()
   );
+  let comments = '';
+  if (commentRanges && commentRanges.length > 0) {
+    comments += `${commentRanges.map(r => sourceFile.slice(r.pos, r.end))}\n`;
+  }
+  return comments;
 }
 
-// Visit all relevant nodes to collect the information we need.
-function visit(
-  result: Schema,
-  assertedTypes: string[],
-  checker: ts.TypeChecker,
-  node: ts.Node,
-  root: string
-) {
+function fileHasEntireFileAnnotation(node: ts.Node): boolean {
+  return node.getSourceFile().getFullText().includes(FILE_ANNOTATION);
+}
+
+// Is this a type declaration that is part of the schema?
+function isCheckTypeDeclaration(node: ts.Node): boolean {
+  if (
+    !ts.isInterfaceDeclaration(node) &&
+    !ts.isTypeAliasDeclaration(node) &&
+    !ts.isEnumDeclaration(node)
+  ) {
+    return false;
+  }
+  if (node.getSourceFile().isDeclarationFile) return false;
+  return (
+    fileHasEntireFileAnnotation(node) ||
+    leadingComments(node).includes(NODE_ANNOTATION)
+  );
+}
+
+// Visit all relevant nodes to collect the information we need. Errors are recorded in
+// context.diagnostics, so that we can report all of them at once.
+function visit(context: ParseContext, node: ts.Node) {
   if (ts.isModuleDeclaration(node)) {
     // This is a namespace, visit its children
-    ts.forEachChild(node, node =>
-      visit(result, assertedTypes, checker, node, root)
-    );
+    ts.forEachChild(node, node => visit(context, node));
     return;
   }
+  try {
+    visitNode(context, node);
+  } catch (e) {
+    context.diagnostics.push(diagnosticFromError(e, node));
+    // Define the type anyway, so that uses of it don't cause more errors.
+    if (
+      (ts.isInterfaceDeclaration(node) ||
+        ts.isTypeAliasDeclaration(node) ||
+        ts.isEnumDeclaration(node)) &&
+      !(node.name.text in context.result.types)
+    ) {
+      context.result.types[node.name.text] = { kind: 'unknown' };
+    }
+  }
+}
+
+function visitNode(context: ParseContext, node: ts.Node) {
+  const { result, checker, root } = context;
 
   // Handle asserted types (by checking import of assertX functions).
   if (
@@ -469,71 +1400,115 @@ function visit(
       for (const element of node.importClause.namedBindings.elements) {
         const name = element.name.getText();
         if (name.startsWith('assert')) {
-          assertedTypes.push(name.slice('assert'.length));
+          result.assertedTypes.push(name.slice('assert'.length));
         }
       }
     }
   }
 
   // Handle type declarations.
-  const sourceFile = node.getSourceFile().getFullText();
-  const commentRanges = ts.getLeadingCommentRanges(
-    sourceFile,
-    node.getFullStart()
-  );
-  let comments = '';
-  if (commentRanges && commentRanges.length > 0) {
-    comments += `${commentRanges.map(r => sourceFile.slice(r.pos, r.end))}\n`;
-  }
-  const fileAnnotation = '// @check-type:entire-file\n';
-  const nodeAnnotation = '// @check-type\n';
-  const ignoreChangesAnnotation = '// @check-type:ignore-changes\n';
-  const nodeHasAnnotation = comments.includes(nodeAnnotation);
+  const comments = leadingComments(node);
+  const nodeHasAnnotation = comments.includes(NODE_ANNOTATION);
   const nodeHasIgnoreChangesAnnotation = comments.includes(
-    ignoreChangesAnnotation
+    IGNORE_CHANGES_ANNOTATION
   );
-  const fileHasAnnotation = sourceFile.includes(fileAnnotation);
+  const nodeHasStrictAnnotation = comments.includes(STRICT_ANNOTATION);
+  const fileHasAnnotation = fileHasEntireFileAnnotation(node);
   // Should we consider this node?
   if (!fileHasAnnotation && !nodeHasAnnotation) {
-    if (nodeHasIgnoreChangesAnnotation) {
-      throw new Error(
-        `The following node has a @check-type:ignore-changes annotation, but not $check-type. Node = ${node.getFullText()}`
+    if (nodeHasIgnoreChangesAnnotation || nodeHasStrictAnnotation) {
+      throw new SchemaParseError(
+        node,
+        `This node has a ${
+          nodeHasStrictAnnotation ? '@check-type:strict' : '@check-type:ignore-changes'
+        } annotation, but not @check-type.`
       );
     }
     return;
   }
-  // There are two supported ways to define a type: via an interface, or a type alias.
-  if (ts.isInterfaceDeclaration(node) || ts.isTypeAliasDeclaration(node)) {
-    if (node.typeParameters) {
-      throw new Error('Generic interfaces are not supported.');
-    }
+  // There are three supported ways to define a type: via an interface, a type alias, or
+  // an enum.
+  if (
+    ts.isInterfaceDeclaration(node) ||
+    ts.isTypeAliasDeclaration(node) ||
+    ts.isEnumDeclaration(node)
+  ) {
     const symbol = assertNonNull(checker.getSymbolAtLocation(node.name));
     const name = checker.symbolToString(symbol);
+    context.declarations.set(name, node);
 
-    if (name in result) {
-      throw new Error(
+    if (name in result.types) {
+      throw new SchemaParseError(
+        node.name,
         `Duplicate definition for type with ${name}. Namespaces/modules are not currently supported.`
       );
     }
     const filename = node.getSourceFile().fileName.substring(root.length + 1);
-    result.types[name] = nodeToType(
-      checker,
-      ts.isTypeAliasDeclaration(node) ? node.type : node,
-      name,
-      filename
-    );
+    const body = ts.isTypeAliasDeclaration(node) ? node.type : node;
+    const constraints = jsDocConstraints(node);
+    if (ts.isEnumDeclaration(node)) {
+      result.types[name] = enumDeclarationToType(checker, node, name, filename);
+    } else if (node.typeParameters) {
+      result.types[name] = {
+        kind: 'generic',
+        typeParameters: node.typeParameters.map(parameter => ({
+          name: parameter.name.getText(),
+          default:
+            parameter.default !== undefined
+              ? nodeToType(checker, parameter.default)
+              : undefined,
+        })),
+        body: withConstraints(
+          nodeToType(checker, body, undefined, filename),
+          constraints
+        ),
+        name,
+        filename,
+      };
+    } else {
+      result.types[name] = withConstraints(
+        nodeToType(checker, body, name, filename),
+        constraints
+      );
+    }
     if (nodeHasIgnoreChangesAnnotation) {
       result.types[name].ignoreChanges = true;
     }
+    if (nodeHasStrictAnnotation) {
+      // Generic types are checked through their (instantiated) body.
+      const type = result.types[name];
+      (type.kind == 'generic' ? type.body : type).strict = true;
+    }
+    const discriminantTag = ts
+      .getJSDocTags(node)
+      .find(tag => tag.tagName.text == 'discriminant');
+    if (discriminantTag !== undefined) {
+      const type = result.types[name];
+      const union = type.kind == 'generic' ? type.body : type;
+      const field = (ts.getTextOfJSDocComment(discriminantTag.comment) ?? '').trim();
+      if (union.kind != 'union') {
+        throw new SchemaParseError(
+          discriminantTag,
+          `@discriminant is only supported on unions.`
+        );
+      }
+      if (field == '') {
+        throw new SchemaParseError(
+          discriminantTag,
+          `@discriminant requires the name of a field.`
+        );
+      }
+      context.discriminantTags.set(union, { tag: discriminantTag, field });
+    }
   } else if (!fileHasAnnotation) {
-    throw new Error(
-      `The following node has a @check-type annotation, but is not a type definition, so the annotation has no effect. Node = ${node.getFullText()}`
+    throw new SchemaParseError(
+      node,
+      `This node has a @check-type annotation, but is not a type definition, so the annotation has no effect.`
     );
   }
 }
 
-function compilerOptions(): ts.CompilerOptions {
-  // TODO: load the real tsconfig.
+function defaultCompilerOptions(): ts.CompilerOptions {
   return {
     target: ts.ScriptTarget.ES2021,
     module: ts.ModuleKind.CommonJS,
@@ -547,51 +1522,182 @@ function compilerOptions(): ts.CompilerOptions {
   };
 }
 
-export function tsProgramFromFiles(files: string[]): ts.Program {
+interface CompilerConfig {
+  options: ts.CompilerOptions;
+  projectReferences?: readonly ts.ProjectReference[];
+}
+
+// Returns the compiler options (and project references) used to build the program. If a
+// tsconfig.json is given, it is parsed the same way tsc parses it, so that e.g. `paths`,
+// `baseUrl` and `lib` are respected when resolving types.
+function compilerConfig(tsconfig?: string): CompilerConfig {
+  if (tsconfig === undefined) {
+    return {
+      options: {
+        ...defaultCompilerOptions(),
+        // Needed for the type-checker to keep null and undefined in the types it resolves.
+        strictNullChecks: true,
+      },
+    };
+  }
+  const configFile = ts.readConfigFile(tsconfig, ts.sys.readFile);
+  if (configFile.error !== undefined) {
+    throw new Error(
+      `Failed to read ${tsconfig}:\n${ts.formatDiagnostics(
+        [configFile.error],
+        formatHost
+      )}`
+    );
+  }
+  const parsed = ts.parseJsonConfigFileContent(
+    configFile.config,
+    ts.sys,
+    path.dirname(tsconfig),
+    undefined,
+    tsconfig
+  );
+  // We pass the root files ourselves, so it's fine if the tsconfig doesn't match any.
+  const NO_INPUTS_FOUND = 18003;
+  const errors = parsed.errors.filter(error => error.code !== NO_INPUTS_FOUND);
+  if (errors.length > 0) {
+    throw new Error(
+      `Failed to parse ${tsconfig}:\n${ts.formatDiagnostics(errors, formatHost)}`
+    );
+  }
+  return {
+    options: {
+      ...parsed.options,
+      noEmit: true,
+      // Always on, even if the tsconfig turns it off: otherwise null and undefined would
+      // be dropped from the schema, and checking would reject them.
+      strictNullChecks: true,
+    },
+    projectReferences: parsed.projectReferences,
+  };
+}
+
+export function tsProgramFromFiles(
+  files: string[],
+  tsconfig?: string
+): ts.Program {
+  const config = compilerConfig(tsconfig);
   // Build a program using the set of root file names in fileNames
-  return ts.createProgram(files, compilerOptions());
+  return ts.createProgram({
+    rootNames: files,
+    options: config.options,
+    projectReferences: config.projectReferences,
+  });
 }
 
 export function parseTypes(root: string, program: ts.Program): Schema {
   // Get the checker, we will use it to find more about classes
   const checker = program.getTypeChecker();
 
-  const result: Schema = {
-    types: {},
-    assertedTypes: [],
+  const context: ParseContext = {
+    result: {
+      types: {},
+      assertedTypes: [],
+    },
+    checker,
+    root,
+    declarations: new Map(),
+    discriminantTags: new Map(),
+    diagnostics: [],
   };
+  const result = context.result;
 
   // Visit every sourceFile in the program
   for (const sourceFile of program.getSourceFiles()) {
     if (!sourceFile.isDeclarationFile) {
       // Walk the tree to search for classes
-      try {
-        ts.forEachChild(sourceFile, node =>
-          visit(result, result.assertedTypes, checker, node, root)
-        );
-      } catch (e) {
-        console.log(`Failed while processing ${sourceFile.fileName}.`);
-        throw e;
-      }
+      ts.forEachChild(sourceFile, node => visit(context, node));
     }
   }
 
   // Sort assertedTypes.
   result.assertedTypes.sort();
 
-  // Fill in kinds information (we do this now to be able to resolve types)
-  visitAllTypes(result, type => {
-    if (type.kind == 'union') {
-      type.kinds = unionKinds(result, type.unionMembers);
+  for (const [name, type] of Object.entries(result.types)) {
+    try {
+      // Fill in discriminants (we do this now to be able to resolve types)
+      visitAllTypes(
+        result,
+        type => {
+          if (type.kind == 'union') {
+            const annotation = context.discriminantTags.get(type);
+            type.discriminant = unionDiscriminant(
+              result,
+              type.unionMembers,
+              annotation?.field
+            );
+            if (annotation !== undefined && type.discriminant === undefined) {
+              throw new SchemaParseError(
+                annotation.tag,
+                `'${annotation.field}' is not a discriminant of the union: every member has to be an interface with a required literal field '${annotation.field}', with a different value in each member.`
+              );
+            }
+          }
+        },
+        type
+      );
+
+      // Check consistency:
+      // - All type uses must be defined (code throws an exception if not).
+      visitAllTypes(
+        result,
+        type => {
+          resolveType(result, type);
+        },
+        type
+      );
+    } catch (e) {
+      context.diagnostics.push(
+        diagnosticFromError(e, assertNonNull(context.declarations.get(name)))
+      );
     }
-  });
+  }
 
-  // Check consistency:
-  // - All type uses must be defined (code throws an exception if not).
-  visitAllTypes(result, type => {
-    resolveType(result, type);
-  });
+  // Default values have to conform to the type of their field, which we can only check
+  // once all types are known.
+  if (context.diagnostics.length == 0) {
+    for (const [name, type] of Object.entries(result.types)) {
+      try {
+        visitAllTypes(
+          result,
+          type => {
+            // Fields of generic types can only be checked once instantiated.
+            if (type.kind == 'generic') return false;
+            if (type.kind != 'interface') return true;
+            for (const field of type.fields) {
+              if (!('default' in field)) continue;
+              const error = checkValueAgainstType(
+                field.default,
+                field.type,
+                result
+              );
+              if (error != '') {
+                throw new Error(
+                  `The default value ${objectToJson(field.default)} of field '${
+                    field.name
+                  }' does not conform to its type:\n${error.trimEnd()}`
+                );
+              }
+            }
+            return true;
+          },
+          type
+        );
+      } catch (e) {
+        context.diagnostics.push(
+          diagnosticFromError(e, assertNonNull(context.declarations.get(name)))
+        );
+      }
+    }
+  }
 
+  if (context.diagnostics.length > 0) {
+    throw new SchemaParseErrors(context.diagnostics);
+  }
   return result;
 }
 
@@ -630,19 +1736,22 @@ function arrayEquals(a: string[], b: string[]) {
 // Watch a set of typescript files, and run callback whenever they change.
 export function watchTsFiles(
   files: () => string[],
-  callback: (program: ts.Program) => void
+  callback: (program: ts.Program) => void,
+  tsconfig?: string
 ) {
   let currentFiles = files();
+  const config = compilerConfig(tsconfig);
 
   // Note that there is another overload for `createWatchCompilerHost` that takes
-  // a set of root files.
+  // a tsconfig.json, but we want to control the set of root files.
   const host = ts.createWatchCompilerHost(
     currentFiles,
-    compilerOptions(),
+    config.options,
     ts.sys,
     ts.createSemanticDiagnosticsBuilderProgram,
     reportDiagnostic,
-    () => {}
+    () => {},
+    config.projectReferences
   );
 
   // eslint-disable-next-line @typescript-eslint/unbound-method
@@ -1,6 +1,6 @@
 // @check-type:entire-file
 
-import { IsoDate, IsoDatetime, TemporalPlainDateTime, TemporalPlainYearMonth } from "../src";
+import { CountryCode, Email, FiniteNumber, IsoDate, IsoDatetime, PhoneNumber, PositiveInteger, SocialSecurityNumber, TemporalPlainDateTime, TemporalPlainYearMonth, UsState } from "../src";
 
 // Types used to test checkValueAgainstType.
 export interface Interface {
@@ -78,3 +78,248 @@ export type OmitTypeNoSubNoBase = Omit<Sub, 'base' | 'sub'>;
 export type KeyOfType = keyof Sub;
 
 export type StringRecord = Record<string, number>;
+export type MaybeDict = StringRecord | null;
+
+export interface Person {
+  name: string;
+  age: number;
+}
+export interface Paginated<T> {
+  items: T[];
+  nextPageToken?: string;
+}
+export type ApiResponse<T, E = string> =
+  | { kind: 'success'; data: T }
+  | { kind: 'error'; error: E };
+export interface PersonWithPets<Pet> extends Paginated<Pet> {
+  owner: Person;
+}
+export type PaginatedPeople = Paginated<Person>;
+export type PeopleResponse = ApiResponse<Paginated<Person>>;
+export type PetsResponse = ApiResponse<PersonWithPets<string>, number>;
+export type Box<T = string> = { v: T };
+export interface UsesBox {
+  b: Box;
+}
+
+export type Coordinate = [number, number];
+export type Range = [start: number, end?: number];
+export type CsvRow = [string, ...number[]];
+export type Tagged = [...string[], boolean];
+
+export type UserId = `user_${string}`;
+export type CssLength = `${number}${'px' | 'em'}`;
+export type VersionString = `v${number}.${number}`;
+export type NumericString = `${number}`;
+
+export enum Color {
+  Red = 'red',
+  Green = 'green',
+}
+export enum Priority {
+  Low,
+  High = 10,
+}
+export const enum Direction {
+  Up = 'up',
+  Down = 'down',
+}
+export interface Paint {
+  color: Color;
+  brightColor?: Color.Red;
+  direction?: Direction;
+}
+export type PriorityRecord = Record<Priority, string>;
+
+export interface Settings {
+  theme?: 'light' | 'dark';
+  fontSize?: number;
+}
+export type Status = 'active' | 'pending' | 'deleted';
+export type Event = { kind: 'click'; x: number } | { kind: 'key'; key: string };
+export type PersonName = Pick<Person, 'name'>;
+export type RequiredSettings = Required<Settings>;
+export interface Layout {
+  columns?: number;
+}
+export type SettingsAndLayout = Settings & Layout;
+export type RequiredSettingsAndLayout = Required<SettingsAndLayout>;
+export type RequiredSettingsWithoutTheme = Required<Omit<Settings & Layout, 'theme'>>;
+export type RequiredTheme = Required<Pick<Settings, 'theme'>>;
+export type ReadonlyPerson = Readonly<Person>;
+export type LiveStatus = Exclude<Status, 'deleted'>;
+export type ClickEvent = Extract<Event, { kind: 'click' }>;
+export type DefiniteString = NonNullable<string | null | undefined>;
+export type PartialSub = Partial<Sub>;
+
+const CONFIG = {
+  port: 8080,
+  host: 'localhost',
+  features: ['search', 'export'],
+  owner: { name: 'Peter', age: 22 } as Person,
+} as const;
+export type Config = typeof CONFIG;
+const ROLES = [
+  { name: 'admin', level: 2 },
+  { name: 'user', level: 1, optional: true },
+] as const;
+export type Role = (typeof ROLES)[number];
+export type PersonFlags = { [K in keyof Person]?: boolean };
+export type Conditional = Person extends { name: string } ? { named: true } : never;
+export type Awaited2 = Awaited<Promise<[Color, ...string[]]>>;
+
+export type OrderId = string & { _OrderId: unknown };
+export interface Order {
+  id: OrderId;
+  customerId: string & { _CustomerId: unknown };
+}
+
+export type Cents = number & { _Cents: unknown };
+export type Verified = boolean & { _Verified: unknown };
+export interface Invoice {
+  total: Cents;
+  quantity: PositiveInteger;
+  ratio?: FiniteNumber;
+  verified?: Verified;
+}
+
+/** @maxLength 10 */
+export type ShortText = string;
+export interface Profile {
+  /**
+   * The name shown to other users.
+   * @minLength 2
+   * @pattern ^[a-z]+$
+   */
+  handle: string;
+  bio?: ShortText | null;
+  /**
+   * @minimum 1
+   * @maximum 100
+   * @integer
+   */
+  level: number;
+  /**
+   * @maxItems 3
+   * @uniqueItems
+   */
+  tags: string[];
+}
+
+// @check-type:strict
+export interface CreateUserRequest extends Base {
+  name: string;
+  contact: { email: string };
+  tags?: Record<string, string>;
+}
+
+export interface Shipment {
+  status: 'pending' | 'shipped';
+  version: 2;
+  shippedOn?: IsoDate;
+  address: {
+    street: string;
+  };
+  labels: Record<string, string>;
+  parcels: Array<{ weight: number }>;
+}
+
+export interface TreeNode {
+  label: string;
+  children: TreeNode[];
+}
+export interface Envelope {
+  payload: unknown;
+  version: number;
+}
+export type TrackingCode = string & { _TrackingCode: unknown };
+
+export interface SearchParams {
+  query: string;
+  page: number;
+  pageSize?: PositiveInteger;
+  exact: boolean;
+  tags: string[];
+  ids?: number[];
+  priority?: Priority;
+  range?: Range;
+  limit?: number | 'all';
+}
+
+export interface ServerConfig {
+  host: string;
+  /** @default 8080 */
+  port?: number;
+  /** @default ["info"] */
+  logLevels?: string[];
+  tls?: {
+    /** @default false */
+    enabled?: boolean;
+  };
+}
+export interface AppConfig {
+  name: string;
+  servers: ServerConfig[];
+}
+
+// A union without a discriminant (two members have the same channel), so its members are
+// tried one after another.
+export interface EmailNotification {
+  channel: 'email';
+  address: string;
+  subject: string;
+}
+export interface SmsNotification {
+  channel: 'sms';
+  phone: string;
+}
+export interface PushNotification {
+  channel: 'push';
+  deviceId: string;
+  badge?: number;
+}
+export interface TopicNotification {
+  channel: 'push';
+  topic: string;
+}
+export type Notification =
+  | EmailNotification
+  | SmsNotification
+  | PushNotification
+  | TopicNotification;
+
+// Unions with other discriminants than kind.
+export type GraphQLNode =
+  | { __typename: 'User'; login: string }
+  | { __typename: 'Repository'; stars: number };
+export type SaveResult = { success: true; id: string } | { success: false; error: string };
+/** @discriminant ok */
+export type HttpResponse =
+  | { status: 200; ok: true; body: string }
+  | { status: 404; ok: false };
+export type Reply = { code: 200; body: string } | { code: 404 };
+export type Res<T> = { ok: true; value: T } | { ok: false; error: string };
+export type NumberRes = Res<number>;
+export type Shape =
+  | { type: 'circle'; radius: number; tag?: string }
+  | { type: 'square'; side: number; tag?: string };
+export type ShapeWithoutType = Omit<Shape, 'type'>;
+export type ShapeTag = Pick<Shape, 'tag'>;
+
+// Values that are redacted in error messages.
+export interface Applicant {
+  name: string;
+  ssn: SocialSecurityNumber;
+  contact: ApplicantContact;
+  // @check-type:sensitive
+  password: string;
+  /** @maxLength 3 */
+  nickname?: string;
+  // @check-type:sensitive
+  state?: UsState;
+}
+export interface ApplicantContact {
+  email: Email;
+  phones: PhoneNumber[];
+  country?: CountryCode;
+}
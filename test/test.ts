@@ -1,5 +1,13 @@
-import { Schema, Type, checkValueAgainstType as checkValueAgainstTypeBase, computePropertiesOfType } from '../src';
+import { CheckOptions, Schema, Type, TypecheckingError, assertValueAgainstType, assertValueWithDefaults, coerceValueAgainstType, sanitizeValue, checkValueAgainstType as checkValueAgainstTypeBase, compileType, computePropertiesOfType, findAllErrors, findErrors, registerSpecialType, setRedactAllValues } from '../src';
 import TEST_SCHEMA from './schema.json';
+import * as ts from 'typescript';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { SchemaParseErrors, formatDiagnostics, parseTypes, tsProgramFromFiles } from '../src/tools/types/parse-types';
+import { standaloneCheckingFunctions } from '../src/tools/types/generate-standalone';
+import { usedSpecialTypes } from '../src/tools/types/generate-schema';
+import { assertAppConfigWithDefaults, assertCustomerId, assertServerConfigWithDefaults, assertTreeNode, coerceSearchParams, isCustomerId, isIsoDate, isProfile, parseIsoDate, parseProfile, sanitizeShipment, sanitizeSub } from './check-type.generated';
 
 console.log(
   `Ensure that the test schema.json is up to date, or run yarn codegen to update as necessary.`
@@ -8,14 +16,69 @@ console.log(
   `To update inline snapshots, run yarn jest test --updateSnapshot`
 );
 
-function checkValueAgainstType(value: unknown, type: { kind: string }): string {
-  return checkValueAgainstTypeBase(
+function checkValueAgainstType(value: unknown, type: { kind: string }, options?: CheckOptions): string {
+  const result = checkValueAgainstTypeBase(
     value,
     type as Type,
-    TEST_SCHEMA as unknown as Schema
+    TEST_SCHEMA as unknown as Schema,
+    options
   );
+  // The compiled validator has to agree with the interpreter on every value we test.
+  expect(compileType(type as Type, TEST_SCHEMA as unknown as Schema, options).isValid(value)).toBe(result === '');
+  // So do the standalone functions, including the error message.
+  const name = Object.entries(TEST_SCHEMA.types).find(entry => entry[1] === type)?.[0];
+  if (name !== undefined && type.kind !== 'generic' && options?.allErrors !== true) {
+    let standaloneResult = '';
+    try {
+      standaloneFunctions()[`assert${name}`](value, options);
+    } catch (error) {
+      if (!(error instanceof TypecheckingError)) throw error;
+      standaloneResult = error.message;
+    }
+    expect(standaloneResult).toBe(result);
+    expect(standaloneFunctions()[`is${name}`](value, options)).toBe(result === '');
+  }
+  return result;
+}
+
+type StandaloneFunctions = { [name: string]: (value: unknown, options?: CheckOptions) => unknown };
+let standaloneFunctionsCache: StandaloneFunctions | undefined = undefined;
+
+// The standalone functions for the test schema, compiled to Javascript.
+function standaloneFunctions() {
+  if (standaloneFunctionsCache === undefined) {
+    const source = standaloneCheckingFunctions(
+      TEST_SCHEMA as unknown as Schema,
+      usedSpecialTypes(TEST_SCHEMA as unknown as Schema),
+      name => `../src/shared/${name}`
+    );
+    const js = ts.transpileModule(source, {
+      compilerOptions: { module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2021 },
+    }).outputText;
+    const module = { exports: {} };
+    new Function('require', 'module', 'exports', js)(require, module, module.exports);
+    standaloneFunctionsCache = module.exports as StandaloneFunctions;
+  }
+  return standaloneFunctionsCache;
+}
+
+// Writes the files to a temporary directory, which is removed after the callback.
+function withFixture(files: { [filename: string]: string }, callback: (dir: string) => void) {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'check-type-'));
+  try {
+    for (const [filename, content] of Object.entries(files)) {
+      fs.mkdirSync(path.dirname(path.join(dir, filename)), { recursive: true });
+      fs.writeFileSync(path.join(dir, filename), content);
+    }
+    callback(dir);
+  } finally {
+    fs.rmSync(dir, { recursive: true });
+  }
 }
 
+// Whether the types are the same, which is checked when the test is compiled.
+type IsSameType<A, B> = (<T>() => T extends A ? 1 : 2) extends <T>() => T extends B ? 1 : 2 ? true : false;
+
 function getProperties(type: { kind: string}): string[] {
   return computePropertiesOfType(TEST_SCHEMA as unknown as Schema, type as Type);
 }
@@ -375,6 +438,34 @@ test('null', () => {
     Expected null value
     "
   `);
+  // Objects with fields are not null.
+  expect(checkValueAgainstType(null, TEST_SCHEMA.types.StringRecord)).toMatchInlineSnapshot(`
+"value (aka. \`null\`) does not conform to StringRecord!
+
+Expected Javascript type object, but got null
+"
+`);
+  expect(checkValueAgainstType(null, TEST_SCHEMA.types.IndexSignature)).toMatchInlineSnapshot(`
+"value (aka. \`null\`) does not conform to IndexSignature!
+
+Expected Javascript type object, but got null
+"
+`);
+  expect(checkValueAgainstType(null, TEST_SCHEMA.types.MappedABOptional)).toMatchInlineSnapshot(`
+"value (aka. \`null\`) does not conform to MappedABOptional!
+
+Expected Javascript type object, but got null
+"
+`);
+  expect(checkValueAgainstType(null, TEST_SCHEMA.types.PartialSub)).toMatchInlineSnapshot(`
+"value (aka. \`null\`) does not conform to PartialSub!
+
+Expected Javascript type object, but got null
+While checking value (aka. \`null\`) against type Sub
+"
+`);
+  expect(checkValueAgainstType(null, TEST_SCHEMA.types.MaybeDict)).toBe('');
+  expect(checkValueAgainstType({ a: 1 }, TEST_SCHEMA.types.MaybeDict)).toBe('');
 });
 
 test('undefined', () => {
@@ -568,3 +659,1751 @@ While checking value['b'] (aka. \`'wrong-type'\`) against type number
 "
 `);
 });
+
+test('generics', () => {
+  // Passing.
+  expect(
+  checkValueAgainstType(
+    { items: [{ name: 'Peter', age: 22 }] },
+    TEST_SCHEMA.types.PaginatedPeople
+  )
+).toMatchInlineSnapshot(`""`);
+  expect(
+  checkValueAgainstType(
+    { kind: 'success', data: { items: [], nextPageToken: 'abc' } },
+    TEST_SCHEMA.types.PeopleResponse
+  )
+).toMatchInlineSnapshot(`""`);
+  expect(
+  checkValueAgainstType(
+    { kind: 'error', error: 404 },
+    TEST_SCHEMA.types.PetsResponse
+  )
+).toMatchInlineSnapshot(`""`);
+  // Failing.
+  expect(
+  checkValueAgainstType(
+    { items: [{ name: 'Peter' }] },
+    TEST_SCHEMA.types.PaginatedPeople
+  )
+).toMatchInlineSnapshot(`
+"value (aka. \`{"items":[{"name":"Peter"}]}\`) does not conform to PaginatedPeople!
+
+Field 'age' is not optional but missing from value
+While checking value['items'][0] (aka. \`{"name":"Peter"}\`) against type Person
+While checking value['items'] (aka. \`[{"name":"Peter"}]\`) against type Array<Person>
+"
+`);
+  expect(
+  checkValueAgainstType(
+    { kind: 'success', data: { items: [1] } },
+    TEST_SCHEMA.types.PeopleResponse
+  )
+).toMatchInlineSnapshot(`
+"value (aka. \`{"kind":"success","data":{"items":[1]}}\`) does not conform to PeopleResponse!
+
+Expected Javascript type object, but got type number
+While checking value['data']['items'][0] (aka. \`1\`) against type Person
+While checking value['data']['items'] (aka. \`[1]\`) against type Array<Person>
+While checking value['data'] (aka. \`{"items":[1]}\`) against type Paginated<Person>
+While checking value (aka. \`{"kind":"success","data":{"items":[1]}}\`) against type _TYPE_[kind == 'success']
+
+_TYPE_ = {
+  "kind": "instantiation",
+  "genericTypeName": "ApiResponse",
+  "typeArguments": [
+    {
+      "kind": "instantiation",
+      "genericTypeName": "Paginated",
+      "typeArguments": [
+        {
+          "kind": "reference-type",
+          "referencedTypeName": "Person"
+        }
+      ]
+    }
+  ],
+  "name": "PeopleResponse",
+  "filename": "test-types.ts"
+}"
+`);
+  expect(
+  checkValueAgainstType(
+    { kind: 'success', data: { items: ['cat'] } },
+    TEST_SCHEMA.types.PetsResponse
+  )
+).toMatchInlineSnapshot(`
+"value does not conform to PetsResponse!
+
+Field 'owner' is not optional but missing from value
+While checking value['data'] (aka. \`{"items":["cat"]}\`) against type PersonWithPets<string>
+While checking value against type _TYPE_[kind == 'success']
+While checking value against type PetsResponse
+value = {
+  "kind": "success",
+  "data": {
+    "items": [
+      "cat"
+    ]
+  }
+}
+
+_TYPE_ = {
+  "kind": "instantiation",
+  "genericTypeName": "ApiResponse",
+  "typeArguments": [
+    {
+      "kind": "instantiation",
+      "genericTypeName": "PersonWithPets",
+      "typeArguments": [
+        {
+          "kind": "string"
+        }
+      ]
+    },
+    {
+      "kind": "number"
+    }
+  ],
+  "name": "PetsResponse",
+  "filename": "test-types.ts"
+}"
+`);
+  expect(
+  checkValueAgainstType(
+    { kind: 'error', error: 'not found' },
+    TEST_SCHEMA.types.PetsResponse
+  )
+).toMatchInlineSnapshot(`
+"value (aka. \`{"kind":"error","error":"not found"}\`) does not conform to PetsResponse!
+
+Expected Javascript type number, but got type string
+While checking value['error'] (aka. \`'not found'\`) against type number
+While checking value (aka. \`{"kind":"error","error":"not found"}\`) against type { kind: 'error'; error: number }
+"
+`);
+  expect(getProperties(TEST_SCHEMA.types.PaginatedPeople)).toMatchInlineSnapshot(`
+[
+  "items",
+  "nextPageToken",
+]
+`);
+  // Without type arguments, the defaults are used.
+  expect(checkValueAgainstType({ b: { v: 'x' } }, TEST_SCHEMA.types.UsesBox)).toBe('');
+  expect(checkValueAgainstType({ b: { v: 1 } }, TEST_SCHEMA.types.UsesBox)).toMatchInlineSnapshot(`
+"value (aka. \`{"b":{"v":1}}\`) does not conform to UsesBox!
+
+Expected Javascript type string, but got type number
+While checking value['b']['v'] (aka. \`1\`) against type string
+While checking value['b'] (aka. \`{"v":1}\`) against type Box
+"
+`);
+});
+
+test('tuple', () => {
+  // Passing.
+  expect(checkValueAgainstType([1, 2], TEST_SCHEMA.types.Coordinate)).toMatchInlineSnapshot(`""`);
+  expect(checkValueAgainstType([1], TEST_SCHEMA.types.Range)).toMatchInlineSnapshot(`""`);
+  expect(checkValueAgainstType([1, 5], TEST_SCHEMA.types.Range)).toMatchInlineSnapshot(`""`);
+  expect(checkValueAgainstType(['a'], TEST_SCHEMA.types.CsvRow)).toMatchInlineSnapshot(`""`);
+  expect(checkValueAgainstType(['a', 1, 2, 3], TEST_SCHEMA.types.CsvRow)).toMatchInlineSnapshot(`""`);
+  expect(checkValueAgainstType(['a', 'b', true], TEST_SCHEMA.types.Tagged)).toMatchInlineSnapshot(`""`);
+  // Failing.
+  expect(checkValueAgainstType([1, 2, 3], TEST_SCHEMA.types.Coordinate)).toMatchInlineSnapshot(`
+"value (aka. \`[1,2,3]\`) does not conform to Coordinate!
+
+Expected a tuple with exactly 2 elements, but got an array with 3 elements
+"
+`);
+  expect(checkValueAgainstType([1, 'b'], TEST_SCHEMA.types.Coordinate)).toMatchInlineSnapshot(`
+"value (aka. \`[1,"b"]\`) does not conform to Coordinate!
+
+Expected Javascript type number, but got type string
+While checking value[1] (aka. \`'b'\`) against type number
+"
+`);
+  expect(checkValueAgainstType([], TEST_SCHEMA.types.Range)).toMatchInlineSnapshot(`
+"value (aka. \`[]\`) does not conform to Range!
+
+Expected a tuple with 1 to 2 elements, but got an array with 0 elements
+"
+`);
+  expect(checkValueAgainstType([1, 'end'], TEST_SCHEMA.types.Range)).toMatchInlineSnapshot(`
+"value (aka. \`[1,"end"]\`) does not conform to Range!
+
+Expected Javascript type number, but got type string
+While checking value[1] (aka. \`'end'\`) against type number
+"
+`);
+  expect(checkValueAgainstType(['a', 1, 'b'], TEST_SCHEMA.types.CsvRow)).toMatchInlineSnapshot(`
+"value (aka. \`["a",1,"b"]\`) does not conform to CsvRow!
+
+Expected Javascript type number, but got type string
+While checking value[2] (aka. \`'b'\`) against type number
+"
+`);
+  expect(checkValueAgainstType(['a', 'b'], TEST_SCHEMA.types.Tagged)).toMatchInlineSnapshot(`
+"value (aka. \`["a","b"]\`) does not conform to Tagged!
+
+Expected Javascript type boolean, but got type string
+While checking value[1] (aka. \`'b'\`) against type boolean
+"
+`);
+  expect(checkValueAgainstType({ 0: 1, 1: 2 }, TEST_SCHEMA.types.Coordinate)).toMatchInlineSnapshot(`
+"value (aka. \`{"0":1,"1":2}\`) does not conform to Coordinate!
+
+Expected an array, but value is not an array
+"
+`);
+  expect(getProperties(TEST_SCHEMA.types.Range)).toMatchInlineSnapshot(`
+[
+  "length",
+  "0",
+  "1",
+]
+`);
+});
+
+test('template literal', () => {
+  // Passing.
+  expect(checkValueAgainstType('user_123', TEST_SCHEMA.types.UserId)).toMatchInlineSnapshot(`""`);
+  expect(checkValueAgainstType('user_', TEST_SCHEMA.types.UserId)).toMatchInlineSnapshot(`""`);
+  expect(checkValueAgainstType('-1.5em', TEST_SCHEMA.types.CssLength)).toMatchInlineSnapshot(`""`);
+  expect(checkValueAgainstType('v1.2', TEST_SCHEMA.types.VersionString)).toMatchInlineSnapshot(`""`);
+  // Failing.
+  expect(checkValueAgainstType('admin_123', TEST_SCHEMA.types.UserId)).toMatchInlineSnapshot(`
+"value (aka. \`'admin_123'\`) does not conform to UserId!
+
+Expected string matching \`user_\${string}\`, but got 'admin_123': it does not start with 'user_'
+"
+`);
+  expect(checkValueAgainstType(123, TEST_SCHEMA.types.UserId)).toMatchInlineSnapshot(`
+"value (aka. \`123\`) does not conform to UserId!
+
+Expected Javascript type string, but got type number
+"
+`);
+  expect(checkValueAgainstType('12pt', TEST_SCHEMA.types.CssLength)).toMatchInlineSnapshot(`
+"value (aka. \`'12pt'\`) does not conform to CssLength!
+
+Expected string matching \`\${number}\${'em' | 'px'}\`, but got '12pt': the 2nd span \`\${'em' | 'px'}\` does not match
+"
+`);
+  expect(checkValueAgainstType('abcpx', TEST_SCHEMA.types.CssLength)).toMatchInlineSnapshot(`
+"value (aka. \`'abcpx'\`) does not conform to CssLength!
+
+Expected string matching \`\${number}\${'em' | 'px'}\`, but got 'abcpx': the 1st span \`\${number}\` does not match
+"
+`);
+  expect(checkValueAgainstType('v1.x', TEST_SCHEMA.types.VersionString)).toMatchInlineSnapshot(`
+"value (aka. \`'v1.x'\`) does not conform to VersionString!
+
+Expected string matching \`v\${number}.\${number}\`, but got 'v1.x': the 2nd span \`\${number}\` does not match
+"
+`);
+  // Numbers are matched like Typescript does: anything that Number() converts to a
+  // finite number.
+  const numbers = ['0x1F', '0o17', '0b101', '1e3', '-2.5E-3', '.5', '5.', ' 1 ', ' '];
+  for (const value of numbers) {
+    expect(checkValueAgainstType(value, TEST_SCHEMA.types.NumericString)).toBe('');
+  }
+  for (const value of ['', 'Infinity', '-0x1F', '1_000', 'NaN', '0x']) {
+    expect(checkValueAgainstType(value, TEST_SCHEMA.types.NumericString)).not.toBe('');
+  }
+});
+
+test('enum declarations', () => {
+  // Passing.
+  expect(checkValueAgainstType('red', TEST_SCHEMA.types.Color)).toMatchInlineSnapshot(`""`);
+  expect(checkValueAgainstType(10, TEST_SCHEMA.types.Priority)).toMatchInlineSnapshot(`""`);
+  expect(
+  checkValueAgainstType({ color: 'green', brightColor: 'red', direction: 'up' }, TEST_SCHEMA.types.Paint)
+).toMatchInlineSnapshot(`""`);
+  // Failing.
+  expect(checkValueAgainstType('blue', TEST_SCHEMA.types.Color)).toMatchInlineSnapshot(`
+"value (aka. \`'blue'\`) does not conform to Color!
+
+Expected one of ['red', 'green'], but got 'blue'
+"
+`);
+  expect(checkValueAgainstType(1, TEST_SCHEMA.types.Priority)).toMatchInlineSnapshot(`
+"value (aka. \`1\`) does not conform to Priority!
+
+Expected one of [0, 10], but got 1
+"
+`);
+  expect(checkValueAgainstType('10', TEST_SCHEMA.types.Priority)).toMatchInlineSnapshot(`
+"value (aka. \`'10'\`) does not conform to Priority!
+
+Expected Javascript type number, but got type string
+"
+`);
+  expect(
+  checkValueAgainstType({ color: 'green', brightColor: 'green' }, TEST_SCHEMA.types.Paint)
+).toMatchInlineSnapshot(`
+"value (aka. \`{"color":"green","brightColor":"green"}\`) does not conform to Paint!
+
+Expected string literal 'red', but got 'green'
+While checking value['brightColor'] (aka. \`'green'\`) against type 'red'
+"
+`);
+  expect(
+  checkValueAgainstType({ color: 'red', direction: 'left' }, TEST_SCHEMA.types.Paint)
+).toMatchInlineSnapshot(`
+"value (aka. \`{"color":"red","direction":"left"}\`) does not conform to Paint!
+
+Expected one of ['up', 'down'], but got 'left'
+While checking value['direction'] (aka. \`'left'\`) against type Direction
+"
+`);
+  expect(getProperties(TEST_SCHEMA.types.PriorityRecord)).toMatchInlineSnapshot(`
+[
+  "0",
+  "10",
+]
+`);
+});
+
+test('utility types', () => {
+  // Passing.
+  expect(checkValueAgainstType({ name: 'Peter' }, TEST_SCHEMA.types.PersonName)).toMatchInlineSnapshot(`""`);
+  expect(
+  checkValueAgainstType({ theme: 'dark', fontSize: 12 }, TEST_SCHEMA.types.RequiredSettings)
+).toMatchInlineSnapshot(`""`);
+  expect(checkValueAgainstType({ name: 'Peter', age: 22 }, TEST_SCHEMA.types.ReadonlyPerson)).toMatchInlineSnapshot(`""`);
+  expect(checkValueAgainstType('pending', TEST_SCHEMA.types.LiveStatus)).toMatchInlineSnapshot(`""`);
+  expect(checkValueAgainstType({ kind: 'click', x: 1 }, TEST_SCHEMA.types.ClickEvent)).toMatchInlineSnapshot(`""`);
+  expect(checkValueAgainstType('abc', TEST_SCHEMA.types.DefiniteString)).toMatchInlineSnapshot(`""`);
+  expect(checkValueAgainstType({ sub: 'b' }, TEST_SCHEMA.types.PartialSub)).toMatchInlineSnapshot(`""`);
+  // Failing.
+  expect(checkValueAgainstType({ age: 22 }, TEST_SCHEMA.types.PersonName)).toMatchInlineSnapshot(`
+"value (aka. \`{"age":22}\`) does not conform to PersonName!
+
+Field 'name' is not optional but missing from value
+While checking value (aka. \`{"age":22}\`) against type Person
+"
+`);
+  expect(checkValueAgainstType({ theme: 'dark' }, TEST_SCHEMA.types.RequiredSettings)).toMatchInlineSnapshot(`
+"value (aka. \`{"theme":"dark"}\`) does not conform to RequiredSettings!
+
+Field 'fontSize' is not optional but missing from value
+While checking value (aka. \`{"theme":"dark"}\`) against type Settings
+"
+`);
+  expect(checkValueAgainstType('deleted', TEST_SCHEMA.types.LiveStatus)).toMatchInlineSnapshot(`
+"value (aka. \`'deleted'\`) does not conform to LiveStatus!
+
+Expected one of ['active', 'pending'], but got 'deleted'
+While checking value (aka. \`'deleted'\`) against type 'active' | 'pending'
+"
+`);
+  expect(checkValueAgainstType({ kind: 'key', key: 'a' }, TEST_SCHEMA.types.ClickEvent)).toMatchInlineSnapshot(`
+"value (aka. \`{"kind":"key","key":"a"}\`) does not conform to ClickEvent!
+
+Expected string literal 'click', but got 'key'
+While checking value['kind'] (aka. \`'key'\`) against type 'click'
+While checking value (aka. \`{"kind":"key","key":"a"}\`) against type { kind: 'click'; x: number }
+"
+`);
+  expect(checkValueAgainstType(null, TEST_SCHEMA.types.DefiniteString)).toMatchInlineSnapshot(`
+"value (aka. \`null\`) does not conform to DefiniteString!
+
+Expected a non-null value, but got null
+"
+`);
+  expect(getProperties(TEST_SCHEMA.types.PersonName)).toMatchInlineSnapshot(`
+[
+  "name",
+]
+`);
+  expect(getProperties(TEST_SCHEMA.types.OmitTypeNoSub)).toMatchInlineSnapshot(`
+[
+  "base",
+]
+`);
+  // Required<T> is passed on to the types of intersections, Omit and Pick.
+  expect(checkValueAgainstType({ theme: 'dark', fontSize: 12, columns: 2 }, TEST_SCHEMA.types.RequiredSettingsAndLayout)).toBe('');
+  expect(checkValueAgainstType({ theme: 'dark', fontSize: 12 }, TEST_SCHEMA.types.RequiredSettingsAndLayout)).toMatchInlineSnapshot(`
+"value (aka. \`{"theme":"dark","fontSize":12}\`) does not conform to RequiredSettingsAndLayout!
+
+Field 'columns' is not optional but missing from value
+While checking value (aka. \`{"theme":"dark","fontSize":12}\`) against type Layout
+While checking value (aka. \`{"theme":"dark","fontSize":12}\`) against type SettingsAndLayout
+"
+`);
+  expect(checkValueAgainstType({ fontSize: 12, columns: 2 }, TEST_SCHEMA.types.RequiredSettingsWithoutTheme)).toBe('');
+  expect(checkValueAgainstType({ columns: 2 }, TEST_SCHEMA.types.RequiredSettingsWithoutTheme)).toMatchInlineSnapshot(`
+"value (aka. \`{"columns":2}\`) does not conform to RequiredSettingsWithoutTheme!
+
+Field 'fontSize' is not optional but missing from value
+While checking value (aka. \`{"columns":2}\`) against type Settings
+While checking value (aka. \`{"columns":2}\`) against type Settings & Layout
+While checking value (aka. \`{"columns":2}\`) against type Omit<Settings & Layout, 'theme'>
+"
+`);
+  expect(checkValueAgainstType({ theme: 'dark' }, TEST_SCHEMA.types.RequiredTheme)).toBe('');
+  expect(checkValueAgainstType({}, TEST_SCHEMA.types.RequiredTheme)).toMatchInlineSnapshot(`
+"value (aka. \`{}\`) does not conform to RequiredTheme!
+
+Field 'theme' is not optional but missing from value
+While checking value (aka. \`{}\`) against type Settings
+While checking value (aka. \`{}\`) against type Pick<Settings, 'theme'>
+"
+`);
+});
+
+test('type-checker fallback', () => {
+  // Passing.
+  expect(
+  checkValueAgainstType(
+    { port: 8080, host: 'localhost', features: ['search', 'export'], owner: { name: 'Mary', age: 30 } },
+    TEST_SCHEMA.types.Config
+  )
+).toMatchInlineSnapshot(`""`);
+  expect(checkValueAgainstType({ name: 'user', level: 1, optional: true }, TEST_SCHEMA.types.Role)).toMatchInlineSnapshot(`""`);
+  expect(checkValueAgainstType({ name: true }, TEST_SCHEMA.types.PersonFlags)).toMatchInlineSnapshot(`""`);
+  expect(checkValueAgainstType({ named: true }, TEST_SCHEMA.types.Conditional)).toMatchInlineSnapshot(`""`);
+  expect(checkValueAgainstType(['red', 'a'], TEST_SCHEMA.types.Awaited2)).toMatchInlineSnapshot(`""`);
+  // Failing.
+  expect(
+  checkValueAgainstType(
+    { port: 8081, host: 'localhost', features: ['search', 'export'], owner: { name: 'Mary', age: 30 } },
+    TEST_SCHEMA.types.Config
+  )
+).toMatchInlineSnapshot(`
+"value does not conform to Config!
+
+Expected number literal '8080', but got '8081'
+While checking value['port'] (aka. \`8081\`) against type 8080
+While checking value against type Config
+value = {
+  "port": 8081,
+  "host": "localhost",
+  "features": [
+    "search",
+    "export"
+  ],
+  "owner": {
+    "name": "Mary",
+    "age": 30
+  }
+}
+"
+`);
+  expect(
+  checkValueAgainstType(
+    { port: 8080, host: 'localhost', features: ['search', 'export'], owner: { name: 'Mary' } },
+    TEST_SCHEMA.types.Config
+  )
+).toMatchInlineSnapshot(`
+"value does not conform to Config!
+
+Field 'age' is not optional but missing from value
+While checking value['owner'] (aka. \`{"name":"Mary"}\`) against type Person
+While checking value against type Config
+value = {
+  "port": 8080,
+  "host": "localhost",
+  "features": [
+    "search",
+    "export"
+  ],
+  "owner": {
+    "name": "Mary"
+  }
+}
+"
+`);
+  expect(checkValueAgainstType({ name: 'admin', level: 1 }, TEST_SCHEMA.types.Role)).toMatchInlineSnapshot(`
+"value (aka. \`{"name":"admin","level":1}\`) does not conform to Role!
+
+Expected number literal '2', but got '1'
+While checking value['level'] (aka. \`1\`) against type 2
+While checking value (aka. \`{"name":"admin","level":1}\`) against type { name: 'admin'; level: 2 }
+"
+`);
+  expect(checkValueAgainstType({ age: 'old' }, TEST_SCHEMA.types.PersonFlags)).toMatchInlineSnapshot(`
+"value (aka. \`{"age":"old"}\`) does not conform to PersonFlags!
+
+Expected Javascript type boolean, but got type string
+While checking value['age'] (aka. \`'old'\`) against type boolean
+"
+`);
+  expect(checkValueAgainstType(['blue'], TEST_SCHEMA.types.Awaited2)).toMatchInlineSnapshot(`
+"value (aka. \`["blue"]\`) does not conform to Awaited2!
+
+Expected one of ['red', 'green'], but got 'blue'
+While checking value[0] (aka. \`'blue'\`) against type Color
+"
+`);
+});
+
+test('registered special types', () => {
+  registerSpecialType('OrderId', value =>
+    /^ord_[0-9]+$/.test(value) ? '' : 'Expected ord_ followed by digits.'
+  );
+  // Passing.
+  expect(checkValueAgainstType('ord_12', TEST_SCHEMA.types.OrderId)).toMatchInlineSnapshot(`""`);
+  // Brands without a registered validator are checked like a string.
+  expect(checkValueAgainstType({ id: 'ord_12', customerId: 'anything' }, TEST_SCHEMA.types.Order)).toMatchInlineSnapshot(`""`);
+  // Failing.
+  expect(checkValueAgainstType('12', TEST_SCHEMA.types.OrderId)).toMatchInlineSnapshot(`
+"value (aka. \`'12'\`) does not conform to OrderId!
+
+Expected ord_ followed by digits. Got '12' for OrderId
+"
+`);
+  expect(checkValueAgainstType({ id: 'order', customerId: 'anything' }, TEST_SCHEMA.types.Order)).toMatchInlineSnapshot(`
+"value (aka. \`{"id":"order","customerId":"anything"}\`) does not conform to Order!
+
+Expected ord_ followed by digits. Got 'order' for OrderId
+While checking value['id'] (aka. \`'order'\`) against type OrderId
+"
+`);
+  registerSpecialType('CustomerId', value => (value.startsWith('cus_') ? '' : 'Expected cus_ prefix.'));
+  expect(checkValueAgainstType({ id: 'ord_12', customerId: 'anything' }, TEST_SCHEMA.types.Order)).toMatchInlineSnapshot(`
+"value (aka. \`{"id":"ord_12","customerId":"anything"}\`) does not conform to Order!
+
+Expected cus_ prefix. Got 'anything' for CustomerId
+While checking value['customerId'] (aka. \`'anything'\`) against type CustomerId
+"
+`);
+  // Brands that are not part of the schema get their own functions as well.
+  expect(usedSpecialTypes(TEST_SCHEMA as unknown as Schema).get('CustomerId')).toBe('string');
+  const customerId: string & { _CustomerId: unknown } = assertCustomerId('cus_1');
+  expect(customerId).toBe('cus_1');
+  expect(isCustomerId('anything')).toBe(false);
+  expect(standaloneFunctions().isCustomerId('cus_1')).toBe(true);
+  expect(() => standaloneFunctions().assertCustomerId('anything')).toThrowErrorMatchingInlineSnapshot(`
+"value (aka. \`'anything'\`) does not conform to CustomerId!
+
+Expected cus_ prefix. Got 'anything' for CustomerId
+"
+`);
+  expect(() => registerSpecialType('Email', () => '')).toThrowErrorMatchingInlineSnapshot(`"Cannot register special type Email, as it is a built-in special type."`);
+});
+
+test('branded numbers and booleans', () => {
+  registerSpecialType<number>('Cents', value =>
+    Number.isInteger(value) ? '' : 'Expected a whole number of cents.'
+  );
+  registerSpecialType<boolean>('Verified', value => (value ? '' : 'Expected a verified flag.'));
+  // Passing.
+  expect(checkValueAgainstType({ total: 1250, quantity: 3, ratio: 0.5, verified: true }, TEST_SCHEMA.types.Invoice)).toMatchInlineSnapshot(`""`);
+  // Failing.
+  expect(checkValueAgainstType({ total: 12.5, quantity: 3 }, TEST_SCHEMA.types.Invoice)).toMatchInlineSnapshot(`
+"value (aka. \`{"total":12.5,"quantity":3}\`) does not conform to Invoice!
+
+Expected a whole number of cents. Got 12.5 for Cents
+While checking value['total'] (aka. \`12.5\`) against type Cents
+"
+`);
+  expect(checkValueAgainstType({ total: 1250, quantity: 0 }, TEST_SCHEMA.types.Invoice)).toMatchInlineSnapshot(`
+"value (aka. \`{"total":1250,"quantity":0}\`) does not conform to Invoice!
+
+Expected a positive integer. Got 0 for PositiveInteger
+While checking value['quantity'] (aka. \`0\`) against type PositiveInteger
+"
+`);
+  expect(checkValueAgainstType({ total: 1250, quantity: 3, ratio: Infinity }, TEST_SCHEMA.types.Invoice)).toMatchInlineSnapshot(`
+"value does not conform to Invoice!
+
+Expected a finite number. Got Infinity for FiniteNumber
+While checking value['ratio'] (aka. \`Infinity\`) against type FiniteNumber
+While checking value against type Invoice
+value = {
+  "total": 1250,
+  "quantity": 3,
+  "ratio": null
+}
+"
+`);
+  expect(checkValueAgainstType({ total: 1250, quantity: 3, verified: false }, TEST_SCHEMA.types.Invoice)).toMatchInlineSnapshot(`
+"value does not conform to Invoice!
+
+Expected a verified flag. Got false for Verified
+While checking value['verified'] (aka. \`false\`) against type Verified
+While checking value against type Invoice
+value = {
+  "total": 1250,
+  "quantity": 3,
+  "verified": false
+}
+"
+`);
+  expect(checkValueAgainstType({ total: '1250', quantity: 3 }, TEST_SCHEMA.types.Invoice)).toMatchInlineSnapshot(`
+"value (aka. \`{"total":"1250","quantity":3}\`) does not conform to Invoice!
+
+Expected Javascript type number, but got type string
+While checking value['total'] (aka. \`'1250'\`) against type Cents
+"
+`);
+});
+
+test('constraints', () => {
+  // Passing.
+  expect(checkValueAgainstType({ handle: 'mary', bio: 'Hi!', level: 100, tags: ['a', 'b'] }, TEST_SCHEMA.types.Profile)).toMatchInlineSnapshot(`""`);
+  expect(checkValueAgainstType({ handle: 'mary', bio: null, level: 1, tags: [] }, TEST_SCHEMA.types.Profile)).toMatchInlineSnapshot(`""`);
+  // Failing.
+  expect(checkValueAgainstType({ handle: 'm', level: 1, tags: [] }, TEST_SCHEMA.types.Profile)).toMatchInlineSnapshot(`
+"value (aka. \`{"handle":"m","level":1,"tags":[]}\`) does not conform to Profile!
+
+Expected a string with at least 2 characters, but got 1 (violates @minLength)
+While checking value['handle'] (aka. \`'m'\`) against type string
+"
+`);
+  expect(checkValueAgainstType({ handle: 'Mary', level: 1, tags: [] }, TEST_SCHEMA.types.Profile)).toMatchInlineSnapshot(`
+"value (aka. \`{"handle":"Mary","level":1,"tags":[]}\`) does not conform to Profile!
+
+Expected a string matching /^[a-z]+$/, but got 'Mary' (violates @pattern)
+While checking value['handle'] (aka. \`'Mary'\`) against type string
+"
+`);
+  expect(checkValueAgainstType({ handle: 'mary', bio: 'Hello there!', level: 1, tags: [] }, TEST_SCHEMA.types.Profile)).toMatchInlineSnapshot(`
+"value does not conform to Profile!
+
+No union member matches:
+- tried 1st union member, but got:
+  Expected null value
+  While checking value['bio'] (aka. \`'Hello there!'\`) against type null
+- tried 2nd union member, but got:
+  Expected a string with at most 10 characters, but got 12 (violates @maxLength)
+  While checking value['bio'] (aka. \`'Hello there!'\`) against type ShortText
+While checking value['bio'] (aka. \`'Hello there!'\`) against type null | ShortText
+While checking value against type Profile
+value = {
+  "handle": "mary",
+  "bio": "Hello there!",
+  "level": 1,
+  "tags": []
+}
+"
+`);
+  expect(checkValueAgainstType({ handle: 'mary', level: 101, tags: [] }, TEST_SCHEMA.types.Profile)).toMatchInlineSnapshot(`
+"value (aka. \`{"handle":"mary","level":101,"tags":[]}\`) does not conform to Profile!
+
+Expected a number <= 100, but got 101 (violates @maximum)
+While checking value['level'] (aka. \`101\`) against type number
+"
+`);
+  expect(checkValueAgainstType({ handle: 'mary', level: 1.5, tags: [] }, TEST_SCHEMA.types.Profile)).toMatchInlineSnapshot(`
+"value (aka. \`{"handle":"mary","level":1.5,"tags":[]}\`) does not conform to Profile!
+
+Expected an integer, but got 1.5 (violates @integer)
+While checking value['level'] (aka. \`1.5\`) against type number
+"
+`);
+  expect(checkValueAgainstType({ handle: 'mary', level: 1, tags: ['a', 'b', 'c', 'd'] }, TEST_SCHEMA.types.Profile)).toMatchInlineSnapshot(`
+"value does not conform to Profile!
+
+Expected an array with at most 3 items, but got 4 (violates @maxItems)
+While checking value['tags'] (aka. \`["a","b","c","d"]\`) against type Array<string>
+While checking value against type Profile
+value = {
+  "handle": "mary",
+  "level": 1,
+  "tags": [
+    "a",
+    "b",
+    "c",
+    "d"
+  ]
+}
+"
+`);
+  expect(checkValueAgainstType({ handle: 'mary', level: 1, tags: ['a', 'b', 'a'] }, TEST_SCHEMA.types.Profile)).toMatchInlineSnapshot(`
+"value does not conform to Profile!
+
+Expected unique items, but value['tags'][0] and value['tags'][2] are equal (violates @uniqueItems)
+While checking value['tags'] (aka. \`["a","b","a"]\`) against type Array<string>
+While checking value against type Profile
+value = {
+  "handle": "mary",
+  "level": 1,
+  "tags": [
+    "a",
+    "b",
+    "a"
+  ]
+}
+"
+`);
+  expect(checkValueAgainstType('Hello there!', TEST_SCHEMA.types.ShortText)).toMatchInlineSnapshot(`
+"value (aka. \`'Hello there!'\`) does not conform to ShortText!
+
+Expected a string with at most 10 characters, but got 12 (violates @maxLength)
+"
+`);
+});
+
+test('strict mode', () => {
+  const strict = { strict: true };
+  // Passing.
+  expect(checkValueAgainstType({ a: 'a', b: 'b' }, TEST_SCHEMA.types.And, strict)).toMatchInlineSnapshot(`""`);
+  expect(checkValueAgainstType({ base: 'a', sub: 'b' }, TEST_SCHEMA.types.Sub, strict)).toMatchInlineSnapshot(`""`);
+  expect(checkValueAgainstType({ anything: 1 }, TEST_SCHEMA.types.StringRecord, strict)).toMatchInlineSnapshot(`""`);
+  expect(checkValueAgainstType({ a: 1, b: 2, extraField: 3 }, TEST_SCHEMA.types.RecAB)).toMatchInlineSnapshot(`""`);
+  expect(checkValueAgainstType({ base: 'b', name: 'n', contact: { email: 'e' }, tags: { any: 'x' } }, TEST_SCHEMA.types.CreateUserRequest)).toMatchInlineSnapshot(`""`);
+  // Failing.
+  expect(checkValueAgainstType({ a: 1, b: 2, extraField: 3 }, TEST_SCHEMA.types.RecAB, strict)).toMatchInlineSnapshot(`
+"value (aka. \`{"a":1,"b":2,"extraField":3}\`) does not conform to RecAB!
+
+Unexpected field value['extraField'] (strict mode)
+"
+`);
+  expect(checkValueAgainstType({ a: 'a', b: 'b', c: 'c', d: 'd' }, TEST_SCHEMA.types.And, strict)).toMatchInlineSnapshot(`
+"value (aka. \`{"a":"a","b":"b","c":"c","d":"d"}\`) does not conform to And!
+
+Unexpected fields value['c'], value['d'] (strict mode)
+"
+`);
+  expect(checkValueAgainstType({ base: 'a', sub: 'b', typo: 'c' }, TEST_SCHEMA.types.Sub, strict)).toMatchInlineSnapshot(`
+"value (aka. \`{"base":"a","sub":"b","typo":"c"}\`) does not conform to Sub!
+
+Unexpected field value['typo'] (strict mode)
+"
+`);
+  expect(checkValueAgainstType({ base: 'a', sub: 'b' }, TEST_SCHEMA.types.OmitTypeNoSub, strict)).toMatchInlineSnapshot(`
+"value (aka. \`{"base":"a","sub":"b"}\`) does not conform to OmitTypeNoSub!
+
+Unexpected field value['sub'] (strict mode)
+"
+`);
+  expect(checkValueAgainstType({ base: 'b', name: 'n', contact: { email: 'e', phone: 'p' } }, TEST_SCHEMA.types.CreateUserRequest)).toMatchInlineSnapshot(`
+"value does not conform to CreateUserRequest!
+
+Unexpected field value['contact']['phone'] (strict mode)
+While checking value['contact'] (aka. \`{"email":"e","phone":"p"}\`) against type { email: string }
+While checking value against type CreateUserRequest
+value = {
+  "base": "b",
+  "name": "n",
+  "contact": {
+    "email": "e",
+    "phone": "p"
+  }
+}
+"
+`);
+});
+
+test('all errors', () => {
+  const allErrors = { allErrors: true };
+  const profile = { handle: 'M', bio: 3, level: 0, tags: ['a', 4, 'a', 5] };
+  // Passing.
+  expect(checkValueAgainstType({ handle: 'mary', level: 1, tags: [] }, TEST_SCHEMA.types.Profile, allErrors)).toMatchInlineSnapshot(`""`);
+  // Failing.
+  expect(checkValueAgainstType(profile, TEST_SCHEMA.types.Profile, allErrors)).toMatchInlineSnapshot(`
+"value does not conform to Profile!
+
+Found 6 errors:
+- value['handle']: Expected a string with at least 2 characters, but got 1 (violates @minLength)
+- value['bio']: No union member matches:
+  - tried 1st union member, but got:
+    Expected null value
+    While checking value['bio'] (aka. \`3\`) against type null
+  - tried 2nd union member, but got:
+    Expected Javascript type string, but got type number
+    While checking value['bio'] (aka. \`3\`) against type ShortText
+  While checking value['bio'] (aka. \`3\`) against type null | ShortText
+- value['level']: Expected a number >= 1, but got 0 (violates @minimum)
+- value['tags']: Expected an array with at most 3 items, but got 4 (violates @maxItems)
+- value['tags'][1]: Expected Javascript type string, but got type number
+  While checking value['tags'][1] (aka. \`4\`) against type string
+- value['tags'][3]: Expected Javascript type string, but got type number
+  While checking value['tags'][3] (aka. \`5\`) against type string
+value = {
+  "handle": "M",
+  "bio": 3,
+  "level": 0,
+  "tags": [
+    "a",
+    4,
+    "a",
+    5
+  ]
+}
+"
+`);
+  expect(checkValueAgainstType({ a: 'x', c: 'y', d: 1 }, TEST_SCHEMA.types.StringRecord, allErrors)).toMatchInlineSnapshot(`
+"value (aka. \`{"a":"x","c":"y","d":1}\`) does not conform to StringRecord!
+
+Found 2 errors:
+- value['a']: Expected Javascript type number, but got type string
+  While checking value['a'] (aka. \`'x'\`) against type number
+- value['c']: Expected Javascript type number, but got type string
+  While checking value['c'] (aka. \`'y'\`) against type number
+"
+`);
+  expect(checkValueAgainstType({ a: 'x' }, TEST_SCHEMA.types.RecAB, allErrors)).toMatchInlineSnapshot(`
+"value (aka. \`{"a":"x"}\`) does not conform to RecAB!
+
+Found 2 errors:
+- value['a']: Expected Javascript type number, but got type string
+  While checking value['a'] (aka. \`'x'\`) against type number
+- value['b']: Field 'b' is not optional but missing from value
+"
+`);
+  expect(checkValueAgainstType('not an object', TEST_SCHEMA.types.Profile, allErrors)).toMatchInlineSnapshot(`
+"value (aka. \`'not an object'\`) does not conform to Profile!
+
+Found 1 error:
+- value: Expected Javascript type object, but got type string
+  While checking value (aka. \`'not an object'\`) against type Profile
+"
+`);
+  expect(findAllErrors(profile, TEST_SCHEMA.types.Profile as Type, TEST_SCHEMA as unknown as Schema, { maxErrors: 2 })).toMatchInlineSnapshot(`
+[
+  {
+    "actual": "string",
+    "code": "constraint-violation",
+    "expected": "string",
+    "message": "Expected a string with at least 2 characters, but got 1 (violates @minLength)",
+    "path": "value['handle']",
+    "pointer": "/handle",
+  },
+  {
+    "actual": "number",
+    "code": "union-no-match",
+    "expected": "null | ShortText",
+    "message": "No union member matches:
+- tried 1st union member, but got:
+  Expected null value
+  While checking value['bio'] (aka. \`3\`) against type null
+- tried 2nd union member, but got:
+  Expected Javascript type string, but got type number
+  While checking value['bio'] (aka. \`3\`) against type ShortText
+While checking value['bio'] (aka. \`3\`) against type null | ShortText",
+    "path": "value['bio']",
+    "pointer": "/bio",
+  },
+]
+`);
+  // Unchanged without allErrors.
+  expect(checkValueAgainstType({ a: 'x' }, TEST_SCHEMA.types.RecAB)).toMatchInlineSnapshot(`
+"value (aka. \`{"a":"x"}\`) does not conform to RecAB!
+
+Expected Javascript type number, but got type string
+While checking value['a'] (aka. \`'x'\`) against type number
+"
+`);
+});
+
+test('structured errors', () => {
+  const schema = TEST_SCHEMA as unknown as Schema;
+  const type = TEST_SCHEMA.types.Shipment as Type;
+  const shipment = {
+    status: 'lost',
+    version: 3,
+    shippedOn: '2022-13-01',
+    address: {},
+    labels: { 'a/b~c': 1 },
+    parcels: [{ weight: 1 }, null],
+  };
+  expect(findErrors({ ...shipment, status: 'pending' }, type, schema)).toMatchInlineSnapshot(`
+[
+  {
+    "actual": "number",
+    "code": "literal-mismatch",
+    "expected": "2",
+    "message": "Expected number literal '2', but got '3'
+While checking value['version'] (aka. \`3\`) against type 2
+While checking value against type Shipment",
+    "path": "value['version']",
+    "pointer": "/version",
+  },
+]
+`);
+  expect(findAllErrors(shipment, type, schema).map(({ message, ...error }) => error)).toMatchInlineSnapshot(`
+[
+  {
+    "actual": "string",
+    "code": "enum-mismatch",
+    "expected": "'pending' | 'shipped'",
+    "path": "value['status']",
+    "pointer": "/status",
+  },
+  {
+    "actual": "number",
+    "code": "literal-mismatch",
+    "expected": "2",
+    "path": "value['version']",
+    "pointer": "/version",
+  },
+  {
+    "actual": "string",
+    "code": "special-type-invalid",
+    "expected": "IsoDate",
+    "path": "value['shippedOn']",
+    "pointer": "/shippedOn",
+  },
+  {
+    "actual": "undefined",
+    "code": "missing-field",
+    "expected": "string",
+    "path": "value['address']['street']",
+    "pointer": "/address/street",
+  },
+  {
+    "actual": "number",
+    "code": "wrong-type",
+    "expected": "string",
+    "path": "value['labels']['a/b~c']",
+    "pointer": "/labels/a~1b~0c",
+  },
+  {
+    "actual": "null",
+    "code": "wrong-type",
+    "expected": "{ weight: number }",
+    "path": "value['parcels'][1]",
+    "pointer": "/parcels/1",
+  },
+]
+`);
+  expect(findAllErrors({ ...shipment, status: 'pending', version: 2, shippedOn: undefined, address: { street: 'Main St' }, labels: {}, parcels: [] }, type, schema)).toEqual([]);
+  expect(() => assertValueAgainstType({ ...shipment, status: 'pending' }, type, schema)).toThrow(TypecheckingError);
+  try {
+    assertValueAgainstType({ ...shipment, status: 'pending' }, type, schema);
+  } catch (e) {
+    expect((e as TypecheckingError).errors).toEqual(findErrors({ ...shipment, status: 'pending' }, type, schema));
+  }
+});
+
+test('compiled validators', () => {
+  const schema = TEST_SCHEMA as unknown as Schema;
+  const type = TEST_SCHEMA.types.TreeNode as Type;
+  const validator = compileType(type, schema);
+  // Validators are cached.
+  expect(compileType(type, schema)).toBe(validator);
+  expect(compileType(type, schema, { strict: true })).not.toBe(validator);
+  // Recursive types.
+  const tree = { label: 'root', children: [{ label: 'a', children: [] }, { label: 'b', children: [{ label: 'c', children: [] }] }] };
+  expect(validator.isValid(tree)).toBe(true);
+  expect(validator.check(tree)).toBe('');
+  const invalidTree = { label: 'root', children: [{ label: 'a', children: [{ label: 1, children: [] }] }] };
+  expect(validator.isValid(invalidTree)).toBe(false);
+  expect(validator.check(invalidTree)).toEqual(checkValueAgainstType(invalidTree, type));
+  expect(validator.findErrors(invalidTree)).toEqual(findErrors(invalidTree, type, schema));
+  expect(() => validator.assert(invalidTree)).toThrow(TypecheckingError);
+  // Registered special types are looked up when checking, so they can be replaced later.
+  const trackingCodeValidator = compileType(TEST_SCHEMA.types.TrackingCode as Type, schema);
+  expect(trackingCodeValidator.isValid('anything')).toBe(true);
+  registerSpecialType('TrackingCode', value => (value.startsWith('TC') ? '' : 'Expected a tracking code.'));
+  expect(trackingCodeValidator.isValid('anything')).toBe(false);
+  expect(trackingCodeValidator.isValid('TC1')).toBe(true);
+});
+
+test('isX and parseX', () => {
+  const profile: unknown = { handle: 'peter', level: 3, tags: ['a'] };
+  expect(isProfile(profile)).toBe(true);
+  if (isProfile(profile)) {
+    // Narrowed to Profile.
+    expect(profile.handle).toBe('peter');
+  }
+  expect(parseProfile(profile)).toEqual({ ok: true, value: profile });
+  const invalidProfile = { handle: 'peter', level: '3', tags: [] };
+  expect(isProfile(invalidProfile)).toBe(false);
+  const result = parseProfile(invalidProfile);
+  expect(result.ok).toBe(false);
+  if (!result.ok) {
+    expect(result.error).toBeInstanceOf(TypecheckingError);
+    expect(result.error.message).toEqual(checkValueAgainstType(invalidProfile, TEST_SCHEMA.types.Profile));
+    expect(result.error.errors.map(error => error.pointer)).toEqual(['/level']);
+  }
+  expect(isProfile({ ...profile as object, extra: 1 })).toBe(true);
+  expect(isProfile({ ...profile as object, extra: 1 }, { strict: true })).toBe(false);
+  // Used special types.
+  expect(isIsoDate('2023-01-31')).toBe(true);
+  expect(isIsoDate('2023-01-32')).toBe(false);
+  expect(parseIsoDate('2023-01-32').ok).toBe(false);
+});
+
+test('coercion', () => {
+  const schema = TEST_SCHEMA as unknown as Schema;
+  const params = { query: 'shoes', page: '2', pageSize: '', exact: 'true', tags: 'red,blue', ids: ['1', '2'], priority: '10', range: '1,5', limit: 'all' };
+  expect(coerceSearchParams(params)).toMatchInlineSnapshot(`
+{
+  "exact": true,
+  "ids": [
+    1,
+    2,
+  ],
+  "limit": "all",
+  "page": 2,
+  "priority": 10,
+  "query": "shoes",
+  "range": [
+    1,
+    5,
+  ],
+  "tags": [
+    "red",
+    "blue",
+  ],
+}
+`);
+  // The value itself is not changed.
+  expect(params.page).toBe('2');
+  expect(coerceSearchParams({ query: '', page: '1', exact: 'false', tags: '', limit: '20' })).toMatchInlineSnapshot(`
+{
+  "exact": false,
+  "limit": 20,
+  "page": 1,
+  "query": "",
+  "tags": [],
+}
+`);
+  // Values that cannot be converted are reported like any other error.
+  expect(() => coerceSearchParams({ query: 'shoes', page: 'two', exact: 'yes', tags: 'a' })).toThrowErrorMatchingInlineSnapshot(`
+"value does not conform to SearchParams!
+
+Expected Javascript type number, but got type string
+While checking value['page'] (aka. \`'two'\`) against type number
+While checking value against type SearchParams
+value = {
+  "query": "shoes",
+  "page": "two",
+  "exact": "yes",
+  "tags": [
+    "a"
+  ]
+}
+"
+`);
+  expect(() => coerceSearchParams({ query: 'shoes', page: '1', exact: 'true', tags: 'a', pageSize: '0' })).toThrowErrorMatchingInlineSnapshot(`
+"value does not conform to SearchParams!
+
+Expected a positive integer. Got 0 for PositiveInteger
+While checking value['pageSize'] (aka. \`0\`) against type PositiveInteger
+While checking value against type SearchParams
+value = {
+  "query": "shoes",
+  "page": 1,
+  "exact": true,
+  "tags": [
+    "a"
+  ],
+  "pageSize": 0
+}
+"
+`);
+  // Boolean and number discriminants are coerced before the union member is chosen, and
+  // members are coerced one by one without the discriminant.
+  const coerce = (value: unknown, type: { kind: string }) => coerceValueAgainstType(value, type as Type, schema);
+  expect(coerce({ success: 'true', id: 'x' }, TEST_SCHEMA.types.SaveResult)).toEqual({ success: true, id: 'x' });
+  expect(coerce({ status: '404', ok: 'false' }, TEST_SCHEMA.types.HttpResponse)).toEqual({ status: 404, ok: false });
+  expect(coerce({ code: '200', body: '1' }, TEST_SCHEMA.types.Reply)).toEqual({ code: 200, body: '1' });
+  expect(coerce({ ok: 'true', value: '3' }, TEST_SCHEMA.types.NumberRes)).toEqual({ ok: true, value: 3 });
+  expect(coerce({ radius: '1' }, TEST_SCHEMA.types.ShapeWithoutType)).toEqual({ radius: 1 });
+  expect(() => coerceValueAgainstType({ query: 'shoes', page: '1', exact: 'true', tags: 'a', extra: '1' }, TEST_SCHEMA.types.SearchParams as Type, schema, { strict: true })).toThrowErrorMatchingInlineSnapshot(`
+"value does not conform to SearchParams!
+
+Unexpected field value['extra'] (strict mode)
+While checking value against type SearchParams
+value = {
+  "query": "shoes",
+  "page": 1,
+  "exact": true,
+  "tags": [
+    "a"
+  ],
+  "extra": "1"
+}
+"
+`);
+});
+
+test('default values', () => {
+  expect(TEST_SCHEMA.types.ServerConfig.fields.find(field => field.name == 'port')).toMatchInlineSnapshot(`
+{
+  "default": 8080,
+  "name": "port",
+  "optional": true,
+  "type": {
+    "kind": "number",
+  },
+}
+`);
+  const config = assertServerConfigWithDefaults({ host: 'localhost', tls: {} });
+  expect(config).toMatchInlineSnapshot(`
+{
+  "host": "localhost",
+  "logLevels": [
+    "info",
+  ],
+  "port": 8080,
+  "tls": {
+    "enabled": false,
+  },
+}
+`);
+  // Typed as present.
+  const port: number = config.port;
+  expect(port).toBe(8080);
+  // Present fields are not replaced, and defaults are not shared between values.
+  const other = assertServerConfigWithDefaults({ host: 'localhost', port: 80 });
+  expect(other.port).toBe(80);
+  other.logLevels.push('debug');
+  expect(assertServerConfigWithDefaults({ host: 'localhost' }).logLevels).toEqual(['info']);
+  // Nested values, which are filled in, but typed as declared.
+  const app = assertAppConfigWithDefaults({ name: 'app', servers: [{ host: 'a' }, { host: 'b', port: 1 }] });
+  const nestedPort: IsSameType<typeof app.servers[0]['port'], number | undefined> = true;
+  expect(nestedPort).toBe(true);
+  expect(app).toMatchInlineSnapshot(`
+{
+  "name": "app",
+  "servers": [
+    {
+      "host": "a",
+      "logLevels": [
+        "info",
+      ],
+      "port": 8080,
+    },
+    {
+      "host": "b",
+      "logLevels": [
+        "info",
+      ],
+      "port": 1,
+    },
+  ],
+}
+`);
+  // Invalid values are reported before filling in defaults.
+  expect(() => assertServerConfigWithDefaults({ port: 1 })).toThrowErrorMatchingInlineSnapshot(`
+"value (aka. \`{"port":1}\`) does not conform to ServerConfig!
+
+Field 'host' is not optional but missing from value
+"
+`);
+});
+
+test('sanitize', () => {
+  const sanitize = (value: unknown, type: { kind: string }) => sanitizeValue(value, type as Type, TEST_SCHEMA as unknown as Schema);
+  // Heritage.
+  expect(sanitizeSub({ base: 'a', sub: 'b', extra: 1 })).toMatchInlineSnapshot(`
+{
+  "base": "a",
+  "sub": "b",
+}
+`);
+  // Intersections, Omit and Partial.
+  expect(sanitize({ a: 'a', b: 'b', c: 'c' }, TEST_SCHEMA.types.And)).toMatchInlineSnapshot(`
+{
+  "a": "a",
+  "b": "b",
+}
+`);
+  expect(sanitize({ base: 'a', sub: 'b', extra: 1 }, TEST_SCHEMA.types.OmitTypeNoBase)).toMatchInlineSnapshot(`
+{
+  "sub": "b",
+}
+`);
+  expect(sanitize({ sub: 'b', extra: 1 }, TEST_SCHEMA.types.PartialSub)).toMatchInlineSnapshot(`
+{
+  "sub": "b",
+}
+`);
+  // Mapped types and index signatures.
+  expect(sanitize({ a: 1, c: 3 }, TEST_SCHEMA.types.MappedABOptional)).toMatchInlineSnapshot(`
+{
+  "a": 1,
+}
+`);
+  expect(sanitize({ a: 1, c: 3 }, TEST_SCHEMA.types.IndexSignature)).toMatchInlineSnapshot(`
+{
+  "a": 1,
+  "c": 3,
+}
+`);
+  // Unions with kinds use the member of the value's kind.
+  expect(sanitize({ kind: 'b', foo: 1, bar: 2 }, TEST_SCHEMA.types.Union)).toMatchInlineSnapshot(`
+{
+  "foo": 1,
+  "kind": "b",
+}
+`);
+  // Omit<T, K> and Pick<T, K> of unions, which also drop the discriminant.
+  expect(sanitize({ radius: 1, extra: 2 }, TEST_SCHEMA.types.ShapeWithoutType)).toEqual({ radius: 1 });
+  expect(sanitize({ side: 2, tag: 'a', extra: 3 }, TEST_SCHEMA.types.ShapeWithoutType)).toEqual({ side: 2, tag: 'a' });
+  expect(sanitize({ tag: 'a', extra: 1 }, TEST_SCHEMA.types.ShapeTag)).toEqual({ tag: 'a' });
+  // Nested values are copied.
+  const shipment = { status: 'pending', version: 2, address: { street: 'Main', city: 'X' }, labels: { a: 'b' }, parcels: [{ weight: 1, color: 'red' }], note: 'x' };
+  const sanitized = sanitizeShipment(shipment);
+  expect(sanitized).toMatchInlineSnapshot(`
+{
+  "address": {
+    "street": "Main",
+  },
+  "labels": {
+    "a": "b",
+  },
+  "parcels": [
+    {
+      "weight": 1,
+    },
+  ],
+  "status": "pending",
+  "version": 2,
+}
+`);
+  expect(sanitized.address).not.toBe(shipment.address);
+  // Values of unknown type are copied too, except for objects like dates.
+  const payload = { at: new Date(0), tags: ['a'] };
+  const envelope = sanitize({ payload, version: 1 }, TEST_SCHEMA.types.Envelope) as { payload: typeof payload };
+  expect(envelope.payload).toEqual(payload);
+  expect(envelope.payload).not.toBe(payload);
+  expect(envelope.payload.at).toBe(payload.at);
+  // Invalid values are reported.
+  expect(() => sanitizeSub({ base: 'a' })).toThrow(TypecheckingError);
+});
+
+test('fields named __proto__', () => {
+  const schema = TEST_SCHEMA as unknown as Schema;
+  const type = TEST_SCHEMA.types.RecString as Type;
+  // JSON.parse creates own fields named __proto__, which are copied as fields instead of
+  // setting the prototype of the copy.
+  const results = [
+    sanitizeValue(JSON.parse('{"a": 1, "__proto__": 2}'), type, schema),
+    coerceValueAgainstType(JSON.parse('{"a": "1", "__proto__": "2"}'), type, schema),
+    assertValueWithDefaults(JSON.parse('{"a": 1, "__proto__": 2}'), type, schema),
+  ];
+  for (const result of results) {
+    expect(Object.getPrototypeOf(result)).toBe(Object.prototype);
+    expect(Object.entries(result as object)).toEqual([['a', 1], ['__proto__', 2]]);
+  }
+});
+
+test('union mismatch errors', () => {
+  // The member with the matching literal field is the closest.
+  expect(checkValueAgainstType({ channel: 'email', address: 'a@b.c', subject: 42 }, TEST_SCHEMA.types.Notification)).toMatchInlineSnapshot(`
+"value does not conform to Notification!
+
+No union member matches, the closest is the 1st union member:
+  Expected Javascript type string, but got type number
+  While checking value['subject'] (aka. \`42\`) against type string
+  While checking value against type EmailNotification
+Other union members:
+- 2nd union member: Expected string literal 'push', but got 'email' (at value['channel'])
+- 3rd union member: Expected string literal 'sms', but got 'email' (at value['channel'])
+- 4th union member: Expected string literal 'push', but got 'email' (at value['channel'])
+While checking value against type Notification
+value = {
+  "channel": "email",
+  "address": "a@b.c",
+  "subject": 42
+}
+"
+`);
+  // Otherwise, the member with the most conforming fields.
+  expect(checkValueAgainstType({ channel: 'fax', phone: '123' }, TEST_SCHEMA.types.Notification)).toMatchInlineSnapshot(`
+"value (aka. \`{"channel":"fax","phone":"123"}\`) does not conform to Notification!
+
+No union member matches, the closest is the 3rd union member:
+  Expected string literal 'sms', but got 'fax'
+  While checking value['channel'] (aka. \`'fax'\`) against type 'sms'
+  While checking value (aka. \`{"channel":"fax","phone":"123"}\`) against type SmsNotification
+Other union members:
+- 1st union member: Expected string literal 'email', but got 'fax' (at value['channel'])
+- 2nd union member: Expected string literal 'push', but got 'fax' (at value['channel'])
+- 4th union member: Expected string literal 'push', but got 'fax' (at value['channel'])
+"
+`);
+  // All errors are only reported on request.
+  expect(checkValueAgainstType({ channel: 'email', address: 'a@b.c', subject: 42 }, TEST_SCHEMA.types.Notification, { fullUnionErrors: true })).toMatchInlineSnapshot(`
+"value does not conform to Notification!
+
+No union member matches:
+- tried 1st union member, but got:
+  Expected Javascript type string, but got type number
+  While checking value['subject'] (aka. \`42\`) against type string
+  While checking value against type EmailNotification
+- tried 2nd union member, but got:
+  Expected string literal 'push', but got 'email'
+  While checking value['channel'] (aka. \`'email'\`) against type 'push'
+  While checking value against type PushNotification
+- tried 3rd union member, but got:
+  Expected string literal 'sms', but got 'email'
+  While checking value['channel'] (aka. \`'email'\`) against type 'sms'
+  While checking value against type SmsNotification
+- tried 4th union member, but got:
+  Expected string literal 'push', but got 'email'
+  While checking value['channel'] (aka. \`'email'\`) against type 'push'
+  While checking value against type TopicNotification
+While checking value against type Notification
+value = {
+  "channel": "email",
+  "address": "a@b.c",
+  "subject": 42
+}
+"
+`);
+});
+
+test('discriminants', () => {
+  expect(TEST_SCHEMA.types.SaveResult.discriminant).toMatchInlineSnapshot(`
+{
+  "field": "success",
+  "members": {
+    "false": 0,
+    "true": 1,
+  },
+}
+`);
+  expect(checkValueAgainstType({ __typename: 'User', login: 1 }, TEST_SCHEMA.types.GraphQLNode)).toMatchInlineSnapshot(`
+"value (aka. \`{"__typename":"User","login":1}\`) does not conform to GraphQLNode!
+
+Expected Javascript type string, but got type number
+While checking value['login'] (aka. \`1\`) against type string
+While checking value (aka. \`{"__typename":"User","login":1}\`) against type { __typename: 'User'; login: string }
+"
+`);
+  expect(checkValueAgainstType({ __typename: 'Issue' }, TEST_SCHEMA.types.GraphQLNode)).toMatchInlineSnapshot(`
+"value (aka. \`{"__typename":"Issue"}\`) does not conform to GraphQLNode!
+
+Expected field '__typename' to be one of ['Repository', 'User'], but got 'Issue'
+"
+`);
+  expect(checkValueAgainstType({ success: 'yes' }, TEST_SCHEMA.types.SaveResult)).toMatchInlineSnapshot(`
+"value (aka. \`{"success":"yes"}\`) does not conform to SaveResult!
+
+Expected field 'success' to have Javascript type boolean, but found type string
+"
+`);
+  expect(checkValueAgainstType({ success: false, error: 'x' }, TEST_SCHEMA.types.SaveResult)).toBe('');
+  // The discriminant is chosen with a @discriminant tag.
+  expect(checkValueAgainstType({ status: 200, ok: false }, TEST_SCHEMA.types.HttpResponse)).toMatchInlineSnapshot(`
+"value (aka. \`{"status":200,"ok":false}\`) does not conform to HttpResponse!
+
+Expected number literal '404', but got '200'
+While checking value['status'] (aka. \`200\`) against type 404
+While checking value (aka. \`{"status":200,"ok":false}\`) against type { status: 404; ok: false }
+"
+`);
+  // Without the discriminant field, e.g. Omit<Shape, 'type'>, the members are checked one
+  // by one.
+  expect(checkValueAgainstType({ radius: 1, tag: 'x' }, TEST_SCHEMA.types.ShapeWithoutType)).toBe('');
+  expect(checkValueAgainstType({ side: 2 }, TEST_SCHEMA.types.ShapeWithoutType)).toBe('');
+  expect(checkValueAgainstType({ tag: 'x' }, TEST_SCHEMA.types.ShapeTag)).toBe('');
+  expect(checkValueAgainstType({ radius: 'x' }, TEST_SCHEMA.types.ShapeWithoutType)).toMatchInlineSnapshot(`
+"value (aka. \`{"radius":"x"}\`) does not conform to ShapeWithoutType!
+
+No union member matches, the closest is the 1st union member:
+  Expected Javascript type number, but got type string
+  While checking value['radius'] (aka. \`'x'\`) against type number
+  While checking value (aka. \`{"radius":"x"}\`) against type ShapeWithoutType[1st union member]
+Other union members:
+- 2nd union member: Field 'side' is not optional but missing from value (at value['side'])
+While checking value (aka. \`{"radius":"x"}\`) against type Shape
+"
+`);
+});
+
+test('resource limits', () => {
+  const schema = TEST_SCHEMA as unknown as Schema;
+  const type = TEST_SCHEMA.types.TreeNode as Type;
+  let deep: unknown = { label: 'leaf', children: [] };
+  for (let i = 0; i < 100000; i++) deep = { label: 'node', children: [deep] };
+  // Deeply nested values are rejected before the stack overflows, and are not printed.
+  // Compiled and standalone checks enforce the depth and size limits as well.
+  expect(checkValueAgainstType(deep, type, { limits: { maxDepth: 4 } })).toMatchInlineSnapshot(`
+"value does not conform to TreeNode!
+
+Exceeded the maximum depth of 4 at value['children'][0]['children'][0]['label']
+"
+`);
+  expect(findErrors(deep, type, schema, { limits: { maxDepth: 4 } })[0].code).toBe('limit-exceeded');
+  expect(compileType(type, schema, { limits: { maxDepth: 4 } }).isValid(deep)).toBe(false);
+  expect(() => assertTreeNode(deep, { limits: { maxDepth: 4 } })).toThrow(TypecheckingError);
+  const wide = { label: 'root', children: Array(1000).fill({ label: 'leaf', children: [] }) };
+  expect(checkValueAgainstType(wide, type, { limits: { maxArrayLength: 100 } })).toMatchInlineSnapshot(`
+"value does not conform to TreeNode!
+
+Exceeded the maximum array length of 100 with 1000 elements at value['children']
+"
+`);
+  expect(checkValueAgainstTypeBase(wide, type, schema, { limits: { maxNodes: 100 } })).toMatchInlineSnapshot(`
+"value does not conform to TreeNode!
+
+Exceeded the maximum number of 100 checked values at value['children'][32]['label']
+"
+`);
+  expect(checkValueAgainstType({ label: 'x'.repeat(1000), children: [] }, type, { limits: { maxStringLength: 100 } })).toMatchInlineSnapshot(`
+"value does not conform to TreeNode!
+
+Exceeded the maximum string length of 100 with 1000 characters at value['label']
+"
+`);
+  // Limits are also enforced in all-errors mode.
+  expect(checkValueAgainstTypeBase({ label: 'x'.repeat(1000), children: [1] }, type, schema, { allErrors: true, limits: { maxStringLength: 100 } })).toMatchInlineSnapshot(`
+"value does not conform to TreeNode!
+
+Found 1 error:
+- value['label']: Exceeded the maximum string length of 100 with 1000 characters at value['label']
+"
+`);
+  let now = 0;
+  const dateNow = jest.spyOn(Date, 'now').mockImplementation(() => (now += 10));
+  try {
+    expect(checkValueAgainstTypeBase(wide, type, schema, { limits: { timeBudgetMs: 25 } })).toMatchInlineSnapshot(`
+"value does not conform to TreeNode!
+
+Exceeded the time budget of 25 ms at value['children']
+"
+`);
+  } finally {
+    dateNow.mockRestore();
+  }
+  // Values within the limits are checked as usual.
+  expect(checkValueAgainstType({ label: 'root', children: [{ label: 1 }] }, type, { limits: { maxDepth: 4, maxStringLength: 10 } })).toMatchInlineSnapshot(`
+"value does not conform to TreeNode!
+
+Expected Javascript type string, but got type number
+While checking value['children'][0]['label'] (aka. \`1\`) against type string
+While checking value['children'][0] (aka. \`{"label":1}\`) against type TreeNode
+While checking value['children'] (aka. \`[{"label":1}]\`) against type Array<TreeNode>
+While checking value against type TreeNode
+"
+`);
+  expect(checkValueAgainstTypeBase(wide, type, schema, { limits: { maxDepth: 4, maxArrayLength: 1000, maxNodes: 10000, maxStringLength: 10 } })).toBe('');
+  // Values checked with limits are not printed, since unchecked parts (e.g. of unknown
+  // fields) might be too deeply nested as well.
+  let payload: unknown = {};
+  for (let i = 0; i < 20000; i++) payload = { payload };
+  const limits = { maxDepth: 10, maxNodes: 1000, timeBudgetMs: 50 };
+  const envelope = TEST_SCHEMA.types.Envelope as Type;
+  expect(checkValueAgainstTypeBase({ payload, version: 'x' }, envelope, schema, { limits })).toMatchInlineSnapshot(`
+"value does not conform to Envelope!
+
+Expected Javascript type number, but got type string
+While checking value['version'] (aka. \`'x'\`) against type number
+While checking value against type Envelope
+"
+`);
+  expect(checkValueAgainstTypeBase({ payload, version: 'x' }, envelope, schema, { allErrors: true, limits })).toMatchInlineSnapshot(`
+"value does not conform to Envelope!
+
+Found 1 error:
+- value['version']: Expected Javascript type number, but got type string
+  While checking value['version'] (aka. \`'x'\`) against type number
+"
+`);
+});
+
+test('cyclic values', () => {
+  const type = TEST_SCHEMA.types.TreeNode;
+  const root: { label: string; children: unknown[] } = { label: 'root', children: [] };
+  root.children.push({ label: 'child', children: [root] });
+  expect(checkValueAgainstType(root, type)).toMatchInlineSnapshot(`
+"value does not conform to TreeNode!
+
+Found a cycle: value['children'][0]['children'][0] is the same object as value
+While checking value['children'][0]['children'][0] against type TreeNode
+While checking value['children'][0]['children'] against type Array<TreeNode>
+While checking value['children'][0] against type TreeNode
+While checking value['children'] against type Array<TreeNode>
+While checking value against type TreeNode
+value = {
+  "label": "root",
+  "children": [
+    {
+      "label": "child",
+      "children": [
+        "[Circular]"
+      ]
+    }
+  ]
+}
+"
+`);
+  expect(findErrors(root, type as Type, TEST_SCHEMA as unknown as Schema)[0].code).toBe('cyclic-value');
+  expect(checkValueAgainstType(root, type, { allErrors: true })).toMatchInlineSnapshot(`
+"value does not conform to TreeNode!
+
+Found 1 error:
+- value['children'][0]['children'][0]: Found a cycle: value['children'][0]['children'][0] is the same object as value
+  While checking value['children'][0]['children'][0] against type TreeNode
+value = {
+  "label": "root",
+  "children": [
+    {
+      "label": "child",
+      "children": [
+        "[Circular]"
+      ]
+    }
+  ]
+}
+"
+`);
+  // Objects that appear in more than one place are fine, as long as they don't contain themselves.
+  const leaf = { label: 'leaf', children: [] };
+  expect(checkValueAgainstType({ label: 'root', children: [leaf, { label: 'child', children: [leaf] }, leaf] }, type)).toBe('');
+  // Coercion leaves cycles as they are, so they are reported like when checking.
+  try {
+    coerceValueAgainstType(root, type as Type, TEST_SCHEMA as unknown as Schema);
+    throw new Error('Expected a TypecheckingError');
+  } catch (e) {
+    expect(e).toBeInstanceOf(TypecheckingError);
+    expect((e as TypecheckingError).errors[0].code).toBe('cyclic-value');
+  }
+});
+
+test('redaction', () => {
+  const type = TEST_SCHEMA.types.Applicant;
+  const applicant = {
+    name: 'Jo',
+    ssn: '123-45-6789',
+    contact: { email: 'jo@example.com', phones: ['+15555550100'] },
+    password: 'hunter2',
+  };
+  expect(checkValueAgainstType(applicant, type)).toBe('');
+  // Values of sensitive special types and fields are never printed.
+  expect(checkValueAgainstType({ ...applicant, ssn: '123456789' }, type)).toMatchInlineSnapshot(`
+"value does not conform to Applicant!
+
+Expected a valid SocialSecurityNumber, but got [redacted]
+While checking value['ssn'] against type SocialSecurityNumber
+While checking value against type Applicant
+value = {
+  "name": "Jo",
+  "ssn": "[redacted]",
+  "contact": {
+    "email": "[redacted]",
+    "phones": "[redacted]"
+  },
+  "password": "[redacted]"
+}
+"
+`);
+  expect(checkValueAgainstType({ ...applicant, contact: { email: 'jo@example.com', phones: ['555-0100'] } }, type)).toMatchInlineSnapshot(`
+"value does not conform to Applicant!
+
+Expected a valid PhoneNumber, but got [redacted]
+While checking value['contact']['phones'][0] against type PhoneNumber
+While checking value['contact']['phones'] against type Array<PhoneNumber>
+While checking value['contact'] against type ApplicantContact
+While checking value against type Applicant
+value = {
+  "name": "Jo",
+  "ssn": "[redacted]",
+  "contact": {
+    "email": "[redacted]",
+    "phones": "[redacted]"
+  },
+  "password": "[redacted]"
+}
+"
+`);
+  expect(checkValueAgainstType({ ...applicant, password: 42 }, type)).toMatchInlineSnapshot(`
+"value does not conform to Applicant!
+
+Expected Javascript type string, but got type number
+While checking value['password'] against type string
+While checking value against type Applicant
+value = {
+  "name": "Jo",
+  "ssn": "[redacted]",
+  "contact": {
+    "email": "[redacted]",
+    "phones": "[redacted]"
+  },
+  "password": "[redacted]"
+}
+"
+`);
+  expect(checkValueAgainstType({ name: 'Jo', ssn: '1', contact: {}, password: 'x' }, type, { allErrors: true })).toMatchInlineSnapshot(`
+"value does not conform to Applicant!
+
+Found 3 errors:
+- value['ssn']: Expected a valid SocialSecurityNumber, but got [redacted]
+  While checking value['ssn'] against type SocialSecurityNumber
+- value['contact']['email']: Field 'email' is not optional but missing from value
+- value['contact']['phones']: Field 'phones' is not optional but missing from value
+value = {
+  "name": "Jo",
+  "ssn": "[redacted]",
+  "contact": {},
+  "password": "[redacted]"
+}
+"
+`);
+  // Other values are printed as usual.
+  expect(checkValueAgainstType({ ...applicant, nickname: 'Joanna' }, type)).toMatchInlineSnapshot(`
+"value does not conform to Applicant!
+
+Expected a string with at most 3 characters, but got 6 (violates @maxLength)
+While checking value['nickname'] (aka. \`'Joanna'\`) against type string
+While checking value against type Applicant
+value = {
+  "name": "Jo",
+  "ssn": "[redacted]",
+  "contact": {
+    "email": "[redacted]",
+    "phones": "[redacted]"
+  },
+  "password": "[redacted]",
+  "nickname": "Joanna"
+}
+"
+`);
+  // The messages of validators, which might show the value, are replaced as well.
+  const schema = TEST_SCHEMA as unknown as Schema;
+  const leaks = (value: unknown, type: Type) => {
+    try {
+      assertValueAgainstType(value, type, schema, { allErrors: true });
+    } catch (e) {
+      const error = e as TypecheckingError;
+      return [error.message, ...error.errors.map(error => error.message)].some(
+        message => message.includes('QQ') || message.includes('XX')
+      );
+    }
+    throw new Error('Expected an error');
+  };
+  expect(checkValueAgainstType({ ...applicant, state: 'QQ' }, type)).toMatchInlineSnapshot(`
+"value does not conform to Applicant!
+
+Expected a valid UsState, but got [redacted]
+While checking value['state'] against type UsState
+While checking value against type Applicant
+value = {
+  "name": "Jo",
+  "ssn": "[redacted]",
+  "contact": {
+    "email": "[redacted]",
+    "phones": "[redacted]"
+  },
+  "password": "[redacted]",
+  "state": "[redacted]"
+}
+"
+`);
+  expect(leaks({ ...applicant, state: 'QQ' }, type as Type)).toBe(false);
+  setRedactAllValues(true);
+  try {
+    const abroad = { ...applicant, contact: { ...applicant.contact, country: 'XX' } };
+    expect(checkValueAgainstType(abroad, type)).toMatchInlineSnapshot(`
+"value does not conform to Applicant!
+
+Expected a valid CountryCode, but got [redacted]
+While checking value['contact']['country'] against type CountryCode
+While checking value['contact'] against type ApplicantContact
+While checking value against type Applicant
+"
+`);
+    expect(leaks(abroad, type as Type)).toBe(false);
+    expect(checkValueAgainstType({ ...applicant, nickname: 'Joanna' }, type)).toMatchInlineSnapshot(`
+"value does not conform to Applicant!
+
+Expected a string with at most 3 characters, but got 6 (violates @maxLength)
+While checking value['nickname'] against type string
+While checking value against type Applicant
+"
+`);
+  } finally {
+    setRedactAllValues(false);
+  }
+});
+
+test('tsconfig', () => {
+  const files = {
+    'shared/money.ts': '// @check-type\nexport interface Money {\n  amount: number;\n}\n',
+    'app/order.ts': "import { Money } from '@shared/money';\n\n// @check-type\nexport interface Order {\n  total: Money;\n  note: string | null;\n}\n",
+    'tsconfig.base.json': JSON.stringify({ compilerOptions: { baseUrl: '.', paths: { '@shared/*': ['shared/*'] } } }),
+    'tsconfig.json': JSON.stringify({ extends: './tsconfig.base.json' }),
+    'invalid.json': JSON.stringify({ compilerOptions: { noSuchOption: true } }),
+    'loose.json': JSON.stringify({ extends: './tsconfig.json', compilerOptions: { strictNullChecks: false } }),
+  };
+  withFixture(files, dir => {
+    const parse = (tsconfig?: string) =>
+      Object.keys(parseTypes(dir, tsProgramFromFiles([path.join(dir, 'app/order.ts')], tsconfig && path.join(dir, tsconfig))).types);
+    const message = (f: () => unknown) => {
+      try {
+        f();
+      } catch (e) {
+        return (e as Error).message.split(dir).join('<dir>');
+      }
+      throw new Error('Expected an error');
+    };
+    // Path aliases are resolved with the tsconfig, also when they are inherited with extends.
+    expect(parse('tsconfig.base.json')).toEqual(['Money', 'Order']);
+    expect(parse('tsconfig.json')).toEqual(['Money', 'Order']);
+    expect(message(() => parse())).toContain("Type 'Money' was used, but not defined.");
+    // strictNullChecks stays on, so that null is kept in the schema.
+    const order = parseTypes(dir, tsProgramFromFiles([path.join(dir, 'app/order.ts')], path.join(dir, 'loose.json'))).types.Order;
+    expect(JSON.stringify(order)).toContain('"kind":"null"');
+    // Missing and invalid tsconfigs are reported.
+    expect(message(() => parse('missing.json'))).toMatchInlineSnapshot(`
+"Failed to read <dir>/missing.json:
+error TS5083: Cannot read file '<dir>/missing.json'.
+"
+`);
+    expect(message(() => parse('invalid.json'))).toMatchInlineSnapshot(`
+"Failed to parse <dir>/invalid.json:
+error TS5023: Unknown compiler option 'noSuchOption'.
+"
+`);
+  });
+});
+
+test('schema parse errors', () => {
+  const files = {
+    'a.ts': '// @check-type\nexport interface Handler {\n  name: string;\n  handle: (event: string) => void;\n}\n\n// @check-type\nexport interface Job {\n  owner: Missing;\n}\n',
+    'b.ts': '// @check-type\nexport interface Service {\n  start(): void;\n}\n',
+  };
+  withFixture(files, dir => {
+    let errors: SchemaParseErrors | undefined = undefined;
+    try {
+      parseTypes(dir, tsProgramFromFiles(Object.keys(files).map(file => path.join(dir, file))));
+    } catch (e) {
+      if (!(e instanceof SchemaParseErrors)) throw e;
+      errors = e;
+    }
+    // All problems are reported together, each with its location (relative to the
+    // working directory), sorted by file and position.
+    const relative = path.relative(process.cwd(), dir);
+    expect(errors?.diagnostics.map(d => `${d.file.replace(relative, '<dir>')}:${d.line}:${d.column}`)).toEqual([
+      '<dir>/a.ts:4:11',
+      '<dir>/a.ts:8:1',
+      '<dir>/b.ts:3:3',
+    ]);
+    expect(errors?.message.split(relative).join('<dir>')).toMatchInlineSnapshot(`
+"<dir>/a.ts:4:11 - error: Function types are not supported: (event: string) => void
+
+4   handle: (event: string) => void;
+            ~~~~~~~~~~~~~~~~~~~~~~~
+
+<dir>/a.ts:8:1 - error: Type 'Missing' was used, but not defined.
+
+8 export interface Job {
+  ~~~~~~~~~~~~~~~~~~~~~~
+9   owner: Missing;
+    ~~~~~~~~~~~~~~~
+10 }
+   ~
+
+<dir>/b.ts:3:3 - error: Unsupported property declaration: MethodSignature.
+
+3   start(): void;
+    ~~~~~~~~~~~~~~
+
+Found 3 errors in 2 files."
+`);
+  });
+  // The summary names the file if there is only one.
+  expect(formatDiagnostics([{ file: 'c.ts', line: 1, column: 6, message: 'Oops.', snippet: '1 type A = B;\n       ~' }])).toMatchInlineSnapshot(`
+"c.ts:1:6 - error: Oops.
+
+1 type A = B;
+       ~
+
+Found 1 error in c.ts."
+`);
+  // any is not treated like unknown.
+  withFixture({ 'd.ts': '// @check-type\nexport type Anything = any;\n' }, dir => {
+    expect(() => parseTypes(dir, tsProgramFromFiles([path.join(dir, 'd.ts')]))).toThrow(
+      'Type any is not supported, use unknown to accept any value.'
+    );
+  });
+});